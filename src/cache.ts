@@ -0,0 +1,259 @@
+/**
+ * Response cache for OpenGrok API calls: a bounded in-memory LRU with an
+ * optional on-disk store. Entries belong to one index generation and are
+ * dropped as soon as the server reports a different last index time.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { runWithSignal } from './request-context.js';
+
+export interface CacheOptions {
+  // Maximum number of entries kept in memory
+  maxEntries?: number;
+  // Maximum total size of the serialized entries kept in memory
+  maxBytes?: number;
+  // Directory for the on-disk store (disabled when unset)
+  directory?: string;
+  // Distinguishes servers that share one disk directory (e.g. the base URL)
+  scope?: string;
+  // Minimum time between two checks of the last index time
+  indexCheckIntervalMs?: number;
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+interface DiskEntry {
+  key: string;
+  indexTime: string;
+  value: string;
+}
+
+export class ResponseCache {
+  // Serialized values in least- to most-recently used order
+  private entries = new Map<string, string>();
+  private bytes = 0;
+  private indexTime?: string;
+  // Bumped whenever the entries are dropped, so values fetched before that are not stored
+  private generationCount = 0;
+  private lastIndexCheck = 0;
+  private pendingCheck?: Promise<void>;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly directory?: string;
+  private readonly scope: string;
+  private readonly indexCheckIntervalMs: number;
+
+  constructor(options: CacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.directory = options.directory;
+    this.scope = options.scope ?? '';
+    this.indexCheckIntervalMs = options.indexCheckIntervalMs ?? 10000;
+  }
+
+  /**
+   * Drop every entry if the index has changed since the cache was filled.
+   * The last index time is fetched at most once per check interval.
+   * @param fetchIndexTime Returns the server's last index time
+   */
+  async validate(fetchIndexTime: () => Promise<string>): Promise<void> {
+    if (Date.now() - this.lastIndexCheck < this.indexCheckIntervalMs) {
+      return;
+    }
+    // Concurrent callers share one check
+    this.pendingCheck ??= (async () => {
+      try {
+        const indexTime = await fetchIndexTime();
+        if (indexTime !== this.indexTime) {
+          this.clear();
+          this.indexTime = indexTime;
+          await this.pruneDisk();
+        }
+        this.lastIndexCheck = Date.now();
+      } finally {
+        this.pendingCheck = undefined;
+      }
+    })();
+    return this.pendingCheck;
+  }
+
+  /**
+   * Look up a value; every hit returns a fresh copy
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    const serialized = this.entries.get(key);
+    if (serialized !== undefined) {
+      // Move to the most recently used position
+      this.entries.delete(key);
+      this.entries.set(key, serialized);
+      return JSON.parse(serialized) as T;
+    }
+
+    const fromDisk = await this.readDisk(key);
+    if (fromDisk !== undefined) {
+      this.remember(key, fromDisk);
+      return JSON.parse(fromDisk) as T;
+    }
+    return undefined;
+  }
+
+  /**
+   * Current cache generation; pass it to set() to drop values fetched before the cache was cleared
+   */
+  get generation(): number {
+    return this.generationCount;
+  }
+
+  /**
+   * Store a value (it must be JSON-serializable)
+   * @param generation Generation the value was fetched in; the value is dropped if it has changed since
+   */
+  async set(key: string, value: unknown, generation: number = this.generationCount): Promise<void> {
+    if (value === undefined || this.indexTime === undefined || generation !== this.generationCount) {
+      return;
+    }
+    const serialized = JSON.stringify(value);
+    this.remember(key, serialized);
+    await this.writeDisk(key, serialized);
+  }
+
+  /**
+   * Drop all in-memory entries; disk entries of older index generations are ignored when read
+   * and removed once a new index time is seen
+   */
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+    this.generationCount++;
+  }
+
+  private remember(key: string, serialized: string): void {
+    const previous = this.entries.get(key);
+    if (previous !== undefined) {
+      this.entries.delete(key);
+      this.bytes -= previous.length;
+    }
+    // Values larger than the whole cache are not kept in memory
+    if (serialized.length > this.maxBytes) {
+      return;
+    }
+
+    this.entries.set(key, serialized);
+    this.bytes += serialized.length;
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.entries.delete(oldestKey);
+      this.bytes -= oldest.length;
+    }
+  }
+
+  // Entries live in <directory>/<scope>/<index time>/, so a reindex can drop a whole generation at once
+  private scopeDirectory(): string {
+    return path.join(this.directory!, hash(this.scope));
+  }
+
+  private generationDirectory(): string {
+    return path.join(this.scopeDirectory(), hash(this.indexTime!));
+  }
+
+  private diskPath(key: string): string {
+    return path.join(this.generationDirectory(), `${hash(key)}.json`);
+  }
+
+  /**
+   * Remove the disk entries of every other index generation of this scope
+   */
+  private async pruneDisk(): Promise<void> {
+    if (!this.directory || this.indexTime === undefined) {
+      return;
+    }
+    const current = hash(this.indexTime);
+    try {
+      const generations = await fs.readdir(this.scopeDirectory());
+      await Promise.all(generations
+        .filter((name) => name !== current)
+        .map((name) => fs.rm(path.join(this.scopeDirectory(), name), { recursive: true, force: true })));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Failed to prune cache directory: ${error.message}`);
+      }
+    }
+  }
+
+  private async readDisk(key: string): Promise<string | undefined> {
+    if (!this.directory || this.indexTime === undefined) {
+      return undefined;
+    }
+    try {
+      const entry: DiskEntry = JSON.parse(await fs.readFile(this.diskPath(key), 'utf-8'));
+      if (entry.key === key && entry.indexTime === this.indexTime) {
+        return entry.value;
+      }
+      // Left over from another key or index generation
+      await fs.rm(this.diskPath(key), { force: true });
+    } catch {
+      // Missing or unreadable entries are cache misses
+    }
+    return undefined;
+  }
+
+  private async writeDisk(key: string, serialized: string): Promise<void> {
+    if (!this.directory || this.indexTime === undefined) {
+      return;
+    }
+    try {
+      await fs.mkdir(this.generationDirectory(), { recursive: true });
+      const entry: DiskEntry = { key, indexTime: this.indexTime, value: serialized };
+      await fs.writeFile(this.diskPath(key), JSON.stringify(entry), 'utf-8');
+    } catch (error: any) {
+      console.error(`Failed to write cache entry: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Replace the given methods of an object with versions that answer from the
+ * cache, keyed by method name and arguments
+ * @param target Object whose methods are wrapped (e.g. the API client)
+ * @param methods Names of the idempotent methods to cache
+ * @param cache Cache to use
+ * @param fetchIndexTime Returns the server's last index time (must not be cached)
+ */
+export function cacheMethods<T extends object>(
+  target: T,
+  methods: (keyof T & string)[],
+  cache: ResponseCache,
+  fetchIndexTime: () => Promise<string>
+): void {
+  for (const method of methods) {
+    const original = (target[method] as unknown as (...args: unknown[]) => Promise<unknown>).bind(target);
+
+    (target as any)[method] = async (...args: unknown[]) => {
+      try {
+        // Shared by concurrent callers, so it must not be cancelled along with any one of them
+        await cache.validate(() => runWithSignal(undefined, fetchIndexTime));
+      } catch {
+        // Without a known index time the cache could be stale: go to the server
+        cache.clear();
+        return original(...args);
+      }
+
+      const key = `${method}:${JSON.stringify(args)}`;
+      const cached = await cache.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+      // A reindex seen by another call while this one is in flight makes the value stale
+      const generation = cache.generation;
+      const value = await original(...args);
+      await cache.set(key, value, generation);
+      return value;
+    };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Helpers for running many OpenGrok requests without flooding the server
+ */
+
+import { RequestCancelledError } from './errors.js';
+
+export type Limiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+/**
+ * Create a limiter that runs at most `limit` tasks at a time; further tasks
+ * wait in FIFO order. Tasks may themselves schedule more tasks. A task whose
+ * signal aborts while it waits leaves the queue without running.
+ * @param limit Maximum number of tasks running at once
+ */
+export function createLimiter(limit: number): Limiter {
+  const maxRunning = Math.max(1, Math.floor(limit));
+  const waiting: (() => void)[] = [];
+  let running = 0;
+
+  const release = () => {
+    running--;
+    const next = waiting.shift();
+    if (next) {
+      running++;
+      next();
+    }
+  };
+
+  return async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+    if (running >= maxRunning) {
+      await new Promise<void>((resolve, reject) => {
+        const start = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          const index = waiting.indexOf(start);
+          if (index >= 0) {
+            waiting.splice(index, 1);
+          }
+          reject(new RequestCancelledError());
+        };
+        waiting.push(start);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    } else {
+      running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
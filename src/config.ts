@@ -8,6 +8,29 @@ export interface OpenGrokConfig {
   password?: string;
   cookieString?: string;
   useOAuth?: boolean;
+  enableAdminTools: boolean;
+  transport: 'stdio' | 'http';
+  httpHost: string;
+  httpPort: number;
+  httpPath: string;
+  httpSharedCredentials: boolean;
+  httpSessionIdleMinutes: number;
+  httpMaxSessions: number;
+  treeConcurrency: number;
+  cacheEnabled: boolean;
+  cacheMaxEntries: number;
+  cacheMaxMb: number;
+  cacheDir?: string;
+  cacheIndexCheckSeconds: number;
+  retries: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  breakerThreshold: number;
+  breakerResetSeconds: number;
+  maxConcurrentRequests: number;
+  maxConcurrentPerEndpoint: number;
+  requestsPerSecond: number;
+  requestBurst: number;
 }
 
 /**
@@ -21,5 +44,28 @@ export function getConfig(): OpenGrokConfig {
     password: process.env.OPENGROK_PASSWORD || undefined,
     cookieString: process.env.OPENGROK_COOKIES || undefined,
     useOAuth: process.env.OPENGROK_USE_OAUTH === 'true',
+    enableAdminTools: process.env.OPENGROK_ENABLE_ADMIN_TOOLS === 'true',
+    transport: process.env.OPENGROK_TRANSPORT === 'http' ? 'http' : 'stdio',
+    httpHost: process.env.OPENGROK_HTTP_HOST || '127.0.0.1',
+    httpPort: parseInt(process.env.OPENGROK_HTTP_PORT || '3000', 10),
+    httpPath: process.env.OPENGROK_HTTP_PATH || '/mcp',
+    httpSharedCredentials: process.env.OPENGROK_HTTP_SHARED_CREDENTIALS === 'true',
+    httpSessionIdleMinutes: parseInt(process.env.OPENGROK_HTTP_SESSION_IDLE_MINUTES || '30', 10),
+    httpMaxSessions: parseInt(process.env.OPENGROK_HTTP_MAX_SESSIONS || '100', 10),
+    treeConcurrency: parseInt(process.env.OPENGROK_TREE_CONCURRENCY || '4', 10),
+    cacheEnabled: process.env.OPENGROK_CACHE !== 'false',
+    cacheMaxEntries: parseInt(process.env.OPENGROK_CACHE_MAX_ENTRIES || '500', 10),
+    cacheMaxMb: parseInt(process.env.OPENGROK_CACHE_MAX_MB || '64', 10),
+    cacheDir: process.env.OPENGROK_CACHE_DIR || undefined,
+    cacheIndexCheckSeconds: parseInt(process.env.OPENGROK_CACHE_INDEX_CHECK_SECONDS || '10', 10),
+    retries: parseInt(process.env.OPENGROK_RETRIES || '3', 10),
+    retryBaseDelayMs: parseInt(process.env.OPENGROK_RETRY_BASE_DELAY_MS || '250', 10),
+    retryMaxDelayMs: parseInt(process.env.OPENGROK_RETRY_MAX_DELAY_MS || '5000', 10),
+    breakerThreshold: parseInt(process.env.OPENGROK_BREAKER_THRESHOLD || '5', 10),
+    breakerResetSeconds: parseInt(process.env.OPENGROK_BREAKER_RESET_SECONDS || '30', 10),
+    maxConcurrentRequests: parseInt(process.env.OPENGROK_MAX_CONCURRENT_REQUESTS || '8', 10),
+    maxConcurrentPerEndpoint: parseInt(process.env.OPENGROK_MAX_CONCURRENT_PER_ENDPOINT || '4', 10),
+    requestsPerSecond: parseFloat(process.env.OPENGROK_REQUESTS_PER_SECOND || '20'),
+    requestBurst: parseInt(process.env.OPENGROK_REQUEST_BURST || '20', 10),
   };
 }
@@ -0,0 +1,32 @@
+/**
+ * Opaque continuation cursors handed to the model for paging.
+ * A cursor is base64url-encoded JSON tagged with the kind of listing it belongs to.
+ */
+
+/**
+ * Encode a cursor payload
+ * @param kind Listing the cursor belongs to (e.g. 'file')
+ * @param payload State needed to fetch the next page
+ */
+export function encodeCursor(kind: string, payload: { [key: string]: unknown }): string {
+  return Buffer.from(JSON.stringify({ kind, ...payload }), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor, checking that it belongs to the expected listing
+ * @param kind Expected listing kind
+ * @param cursor Cursor string returned by a previous call
+ */
+export function decodeCursor<T>(kind: string, cursor: string): T {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid cursor: pass the cursor exactly as returned by the previous call.');
+  }
+
+  if (!decoded || decoded.kind !== kind) {
+    throw new Error(`Invalid cursor: it was not returned by a ${kind} request.`);
+  }
+  return decoded as T;
+}
@@ -0,0 +1,159 @@
+/**
+ * Typed errors for OpenGrok requests. Each error carries the HTTP status and
+ * endpoint (when known) and a hint telling the caller how to recover.
+ */
+
+import axios from 'axios';
+
+export interface ErrorDetails {
+  status?: number;
+  endpoint?: string;
+  hint?: string;
+}
+
+export class OpenGrokError extends Error {
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly hint?: string;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message);
+    this.name = 'OpenGrokError';
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.hint = details.hint;
+  }
+}
+
+export class AuthenticationError extends OpenGrokError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, {
+      hint: 'Refresh OPENGROK_COOKIES from a logged-in browser session (or check OPENGROK_USERNAME/OPENGROK_PASSWORD) and restart the server.',
+      ...details,
+    });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends OpenGrokError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, {
+      hint: 'Check the project name and path. Use opengrok_list_projects, opengrok_find_file or opengrok_get_directory_listing to find the right one.',
+      ...details,
+    });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class InvalidQueryError extends OpenGrokError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, {
+      hint: 'Fix the query syntax: escape special characters with a backslash, or build the query with opengrok_structured_search.',
+      ...details,
+    });
+    this.name = 'InvalidQueryError';
+  }
+}
+
+export class ServerUnavailableError extends OpenGrokError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, {
+      hint: 'The OpenGrok server is down or overloaded. Wait a moment before retrying.',
+      ...details,
+    });
+    this.name = 'ServerUnavailableError';
+  }
+}
+
+export class TimeoutError extends OpenGrokError {
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, {
+      hint: 'Narrow the request (a single project, fewer results, or a line range) and retry.',
+      ...details,
+    });
+    this.name = 'TimeoutError';
+  }
+}
+
+export class RequestCancelledError extends OpenGrokError {
+  constructor(message: string = 'Request cancelled by the client', details: ErrorDetails = {}) {
+    super(message, details);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT']);
+
+/**
+ * Error for an unexpected HTTP status
+ * @param status HTTP status code
+ * @param endpoint API endpoint that was called (e.g. /search)
+ * @param action What was being done, e.g. "get file content"
+ */
+export function errorForStatus(status: number, endpoint: string, action: string): OpenGrokError {
+  const message = `Failed to ${action}: HTTP ${status}`;
+  const details = { status, endpoint };
+
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(`Failed to ${action}: authentication failed (HTTP ${status})`, details);
+  }
+  if (status === 404) {
+    return new NotFoundError(`Failed to ${action}: not found (HTTP 404)`, details);
+  }
+  if (status === 400 && (endpoint.startsWith('/search') || endpoint.startsWith('/suggest'))) {
+    return new InvalidQueryError(`Failed to ${action}: the server rejected the query (HTTP 400)`, details);
+  }
+  if (status === 429 || status >= 500) {
+    return new ServerUnavailableError(message, details);
+  }
+  return new OpenGrokError(message, details);
+}
+
+/**
+ * Convert anything thrown while performing an action into an OpenGrokError.
+ * OpenGrokErrors pass through unchanged, so messages are never nested.
+ * @param error Caught value
+ * @param action What was being done, e.g. "get file content"
+ * @param endpoint API endpoint that was called, if any
+ */
+export function toOpenGrokError(error: unknown, action: string, endpoint?: string): OpenGrokError {
+  if (error instanceof OpenGrokError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new RequestCancelledError(`Cancelled while trying to ${action}`, { endpoint });
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return errorForStatus(error.response.status, endpoint ?? error.config?.url ?? '', action);
+    }
+    if (error.code && TIMEOUT_CODES.has(error.code)) {
+      const timeout = error.config?.timeout;
+      return new TimeoutError(`Failed to ${action}: no response${timeout ? ` within ${timeout / 1000}s` : ''}`, { endpoint });
+    }
+    return new ServerUnavailableError(`Failed to ${action}: cannot reach the OpenGrok server (${error.code || error.message})`, { endpoint });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new OpenGrokError(`Failed to ${action}: ${message}`, { endpoint });
+}
+
+/**
+ * Render an error for a tool result: the message, where it happened and how to recover
+ */
+export function describeError(error: unknown): string {
+  if (!(error instanceof OpenGrokError)) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const lines = [`Error (${error.name}): ${error.message}`];
+  if (error.endpoint) {
+    lines.push(`Endpoint: ${error.endpoint}`);
+  }
+  if (error.hint) {
+    lines.push(`Suggestion: ${error.hint}`);
+  }
+  return lines.join('\n');
+}
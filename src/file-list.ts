@@ -0,0 +1,91 @@
+/**
+ * Filtering, paging and summaries for a project's indexed file list
+ */
+
+import { globMatcher } from './glob.js';
+
+export interface FileListFilter {
+  // Globs matched against the path relative to the project root
+  globs?: string[];
+  // Regular expression tested against the full path
+  regex?: string;
+  // File extensions, with or without the leading dot (e.g. "java", ".ts")
+  extensions?: string[];
+}
+
+export interface FileListSummary {
+  total: number;
+  byDirectory: { [directory: string]: number };
+  byExtension: { [extension: string]: number };
+}
+
+/**
+ * Strip the "/project/" prefix from an indexed file path
+ */
+export function projectRelativePath(path: string, project: string): string {
+  const prefix = `/${project}/`;
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path.replace(/^\/+/, '');
+}
+
+/**
+ * Extension of a path without the dot, lower-cased ('' when there is none)
+ */
+export function fileExtension(path: string): string {
+  const name = path.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+/**
+ * Keep the files that match every given filter
+ * @param files Paths as returned by /projects/{project}/files
+ * @param project Project the files belong to
+ * @param filter Glob, regex and extension filters
+ */
+export function filterFiles(files: string[], project: string, filter: FileListFilter): string[] {
+  const { globs = [], regex, extensions = [] } = filter;
+
+  let pattern: RegExp | undefined;
+  if (regex) {
+    try {
+      pattern = new RegExp(regex);
+    } catch (error: any) {
+      throw new Error(`Invalid regex: ${error.message}`);
+    }
+  }
+
+  const matchesGlob = globs.length > 0 ? globMatcher(globs) : undefined;
+  const wanted = new Set(extensions.map((extension) => extension.replace(/^\./, '').toLowerCase()));
+
+  return files.filter((file) =>
+    (!matchesGlob || matchesGlob(projectRelativePath(file, project))) &&
+    (!pattern || pattern.test(file)) &&
+    (wanted.size === 0 || wanted.has(fileExtension(file)))
+  );
+}
+
+/**
+ * Count files per top-level directory and per extension, largest groups first
+ */
+export function summarizeFiles(files: string[], project: string): FileListSummary {
+  const byDirectory = new Map<string, number>();
+  const byExtension = new Map<string, number>();
+
+  for (const file of files) {
+    const segments = projectRelativePath(file, project).split('/');
+    // Files directly in the project root are counted under "."
+    const directory = segments.length > 1 ? segments[0] : '.';
+    const extension = fileExtension(file) || '(none)';
+    byDirectory.set(directory, (byDirectory.get(directory) || 0) + 1);
+    byExtension.set(extension, (byExtension.get(extension) || 0) + 1);
+  }
+
+  const sorted = (counts: Map<string, number>) =>
+    Object.fromEntries([...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])));
+
+  return {
+    total: files.length,
+    byDirectory: sorted(byDirectory),
+    byExtension: sorted(byExtension),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Fuzzy subsequence scoring for "go to file", in the style of editor quick-open.
+ * Every query character must appear in the path in order; matches at word
+ * boundaries (after "/", "_", "-", ".", or at a camelCase hump) and runs of
+ * consecutive characters score higher, gaps score lower.
+ */
+
+const SCORE_CONSECUTIVE = 1.0;
+const SCORE_SLASH = 0.9;
+const SCORE_WORD = 0.8;
+const SCORE_CAPITAL = 0.7;
+const SCORE_DOT = 0.6;
+const GAP_LEADING = -0.005;
+const GAP_INNER = -0.01;
+const GAP_TRAILING = -0.005;
+
+// Matches inside the file name are worth more than matches in directory names
+const BASENAME_BONUS = 2;
+const EXACT_BASENAME_BONUS = 5;
+
+function boundaryBonus(previous: string | undefined, current: string): number {
+  if (previous === undefined || previous === '/') {
+    return SCORE_SLASH;
+  }
+  if (previous === '_' || previous === '-' || previous === ' ') {
+    return SCORE_WORD;
+  }
+  if (previous === '.') {
+    return SCORE_DOT;
+  }
+  if (previous === previous.toLowerCase() && current !== current.toLowerCase()) {
+    return SCORE_CAPITAL;
+  }
+  return 0;
+}
+
+/**
+ * Check whether the query is a case-insensitive subsequence of the text
+ */
+export function isSubsequence(query: string, text: string): boolean {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  let position = 0;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position);
+    if (position === -1) {
+      return false;
+    }
+    position++;
+  }
+  return true;
+}
+
+/**
+ * Best alignment score of query within text, or null when it does not match
+ */
+function alignmentScore(query: string, text: string): number | null {
+  if (!isSubsequence(query, text)) {
+    return null;
+  }
+
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  const n = needle.length;
+  const m = haystack.length;
+  const bonus = new Float64Array(m);
+  for (let j = 0; j < m; j++) {
+    bonus[j] = boundaryBonus(j > 0 ? text[j - 1] : undefined, text[j]);
+  }
+
+  // D: best score with needle[i] matched exactly at j; M: best score for needle[0..i] within text[0..j]
+  let previousD = new Float64Array(m).fill(-Infinity);
+  let previousM = new Float64Array(m).fill(-Infinity);
+  for (let i = 0; i < n; i++) {
+    const D = new Float64Array(m).fill(-Infinity);
+    const M = new Float64Array(m).fill(-Infinity);
+    const gap = i === n - 1 ? GAP_TRAILING : GAP_INNER;
+    let best = -Infinity;
+
+    for (let j = 0; j < m; j++) {
+      if (needle[i] === haystack[j]) {
+        let score = -Infinity;
+        if (i === 0) {
+          score = j * GAP_LEADING + bonus[j];
+        } else if (j > 0) {
+          score = Math.max(previousM[j - 1] + bonus[j], previousD[j - 1] + SCORE_CONSECUTIVE);
+        }
+        D[j] = score;
+        best = Math.max(score, best + gap);
+      } else {
+        best += gap;
+      }
+      M[j] = best;
+    }
+
+    previousD = D;
+    previousM = M;
+  }
+
+  const score = previousM[m - 1];
+  return Number.isFinite(score) ? score : null;
+}
+
+/**
+ * Score a path against a partial file name such as "UsrAuthCtrl"
+ * @returns The score (higher is better), or null when the path does not match
+ */
+export function fuzzyScore(query: string, path: string): number | null {
+  const trimmed = query.trim();
+  if (trimmed === '') {
+    return null;
+  }
+
+  // Only queries that mention directories are matched against the whole path
+  const basename = path.split('/').pop() || path;
+  const basenameScore = trimmed.includes('/') ? null : alignmentScore(trimmed, basename);
+  const pathScore = alignmentScore(trimmed, path);
+  if (basenameScore === null && pathScore === null) {
+    return null;
+  }
+
+  let score = Math.max(pathScore ?? -Infinity, basenameScore !== null ? basenameScore + BASENAME_BONUS : -Infinity);
+  const stem = basename.replace(/\.[^.]*$/, '').toLowerCase();
+  if (stem === trimmed.toLowerCase() || basename.toLowerCase() === trimmed.toLowerCase()) {
+    score += EXACT_BASENAME_BONUS;
+  }
+  return score;
+}
+
+/**
+ * Rank paths by fuzzy score, best first; ties go to the shorter path
+ * @param query Partial file name or path
+ * @param paths Candidate paths
+ * @param limit Maximum number of matches to return
+ */
+export function rankPaths(query: string, paths: Iterable<string>, limit: number): { path: string; score: number }[] {
+  const matches: { path: string; score: number }[] = [];
+  for (const path of paths) {
+    const score = fuzzyScore(query, path);
+    if (score !== null) {
+      matches.push({ path, score });
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.path.length - b.path.length || a.path.localeCompare(b.path));
+  return matches.slice(0, limit).map(({ path, score }) => ({ path, score: Math.round(score * 1000) / 1000 }));
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal glob matching for filtering OpenGrok paths.
+ * Supports "*" (within one segment), "**" (any number of segments), "?",
+ * character classes ("[abc]", "[!abc]") and alternatives ("{ts,js}").
+ * A pattern without "/" is matched against the last path segment only,
+ * so "*.java" matches Java files in every directory.
+ */
+
+/**
+ * Compile a glob pattern into a regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inAlternatives = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories; a trailing "**" matches everything
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        let body = pattern.slice(i + 1, end);
+        if (body.startsWith('!')) {
+          body = '^' + body.slice(1);
+        }
+        source += `[${body.replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{' && !inAlternatives) {
+      inAlternatives = true;
+      source += '(?:';
+    } else if (char === '}' && inAlternatives) {
+      inAlternatives = false;
+      source += ')';
+    } else if (char === ',' && inAlternatives) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}${inAlternatives ? ')' : ''}$`);
+}
+
+/**
+ * Build a predicate that reports whether a path matches any of the patterns
+ * @param patterns Glob patterns
+ */
+export function globMatcher(patterns: string[]): (path: string) => boolean {
+  const compiled = patterns.map((pattern) => ({
+    regex: globToRegExp(pattern.replace(/^\/+/, '')),
+    basenameOnly: !pattern.includes('/'),
+  }));
+
+  return (path: string) => {
+    const relative = path.replace(/^\/+/, '');
+    const basename = relative.split('/').pop() || relative;
+    return compiled.some(({ regex, basenameOnly }) => regex.test(basenameOnly ? basename : relative));
+  };
+}
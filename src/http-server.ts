@@ -0,0 +1,216 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Per-session OpenGrok credentials taken from the initialize request headers
+ */
+export interface SessionCredentials {
+  cookieString?: string;
+  username?: string;
+  password?: string;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  path: string;
+  // Accept sessions without credentials headers (they use the server's own credentials)
+  allowSharedCredentials: boolean;
+  // Sessions without a request for this long are closed (0 keeps them until DELETE)
+  sessionIdleMs: number;
+  // New sessions are refused while this many are open (0 for no limit)
+  maxSessions: number;
+  createSession: (credentials: SessionCredentials) => Promise<Server>;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Extract OpenGrok credentials from request headers.
+ * Cookies come from X-OpenGrok-Cookies, basic auth from the Authorization header.
+ */
+function getSessionCredentials(req: http.IncomingMessage): SessionCredentials {
+  const credentials: SessionCredentials = {};
+
+  const cookieHeader = req.headers['x-opengrok-cookies'];
+  if (typeof cookieHeader === 'string' && cookieHeader.trim() !== '') {
+    credentials.cookieString = cookieHeader.trim();
+  }
+
+  const authorization = req.headers.authorization;
+  if (authorization && authorization.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf-8');
+    const separator = decoded.indexOf(':');
+    if (separator > 0) {
+      credentials.username = decoded.slice(0, separator);
+      credentials.password = decoded.slice(separator + 1);
+    }
+  }
+
+  return credentials;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        resolve(text === '' ? undefined : JSON.parse(text));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  }));
+}
+
+/**
+ * Serve MCP over Streamable HTTP. Each session gets its own MCP server
+ * (and therefore its own OpenGrok client and cookie jar).
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+  const lastSeen = new Map<string, number>();
+  // Requests still being answered per session, including open SSE streams
+  const openRequests = new Map<string, number>();
+
+  // Clients that disconnect without DELETE would otherwise keep their session
+  // (and its response cache) in memory for good
+  if (options.sessionIdleMs > 0) {
+    const sweep = setInterval(() => {
+      const now = Date.now();
+      for (const [id, seen] of lastSeen) {
+        // A session with an open stream is in use, however long ago it started
+        if ((openRequests.get(id) ?? 0) === 0 && now - seen >= options.sessionIdleMs) {
+          console.error(`HTTP session idle, closing: ${id}`);
+          sessions.get(id)?.close().catch((error) => console.error(`Error closing session ${id}:`, error));
+        }
+      }
+    }, Math.min(options.sessionIdleMs, 60000));
+    sweep.unref();
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const requestUrl = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+      if (requestUrl.pathname !== options.path) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      let body: unknown;
+      if (req.method === 'POST') {
+        try {
+          body = await readJsonBody(req);
+        } catch (error: any) {
+          sendJsonRpcError(res, 400, -32700, `Parse error: ${error.message}`);
+          return;
+        }
+      }
+
+      const sessionId = req.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') {
+        const transport = sessions.get(sessionId);
+        if (!transport) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        lastSeen.set(sessionId, Date.now());
+        openRequests.set(sessionId, (openRequests.get(sessionId) ?? 0) + 1);
+        res.on('close', () => {
+          const remaining = (openRequests.get(sessionId) ?? 1) - 1;
+          if (remaining > 0) {
+            openRequests.set(sessionId, remaining);
+          } else {
+            openRequests.delete(sessionId);
+          }
+          // The idle time starts when the last request or stream ends
+          if (sessions.has(sessionId)) {
+            lastSeen.set(sessionId, Date.now());
+          }
+        });
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const credentials = getSessionCredentials(req);
+      if (!credentials.cookieString && !credentials.username && !options.allowSharedCredentials) {
+        sendJsonRpcError(res, 401, -32001, 'Unauthorized: send X-OpenGrok-Cookies or Authorization: Basic with the initialize request');
+        return;
+      }
+
+      if (options.maxSessions > 0 && sessions.size >= options.maxSessions) {
+        sendJsonRpcError(res, 503, -32000, 'Too many open sessions, try again later');
+        return;
+      }
+
+      const server = await options.createSession(credentials);
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, transport);
+          lastSeen.set(id, Date.now());
+          console.error(`HTTP session started: ${id}`);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+          lastSeen.delete(transport.sessionId);
+          openRequests.delete(transport.sessionId);
+          console.error(`HTTP session closed: ${transport.sessionId}`);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error: any) {
+      console.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
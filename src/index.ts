@@ -4,32 +4,88 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CallToolResult,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { OpenGrokClient } from './opengrok-client.js';
+import { CompositeQuery, DirectoryTreeNode, OpenGrokClient, OpenGrokClientOptions, SearchPage, SearchResult, SearchSort, SearchType, groupByProject } from './opengrok-client.js';
 import { getConfig } from './config.js';
 import { OpenGrokAuth } from './auth.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { getPrompt, prompts } from './prompts.js';
+import { startHttpServer } from './http-server.js';
+import { LineRangeOptions, numberLines, resolveLineRange, sliceLines, splitLines } from './line-utils.js';
+import { decodeCursor, encodeCursor } from './cursor.js';
+import { QueryNode, buildQuery } from './query-builder.js';
+import { buildOutline, formatOutline, pruneOutline } from './outline.js';
+import { filterFiles, summarizeFiles } from './file-list.js';
+import { InvalidQueryError, describeError } from './errors.js';
+import { RequestLimiter } from './request-limiter.js';
+import { runWithSignal } from './request-context.js';
 
-// Initialize configuration and client
+// Initialize configuration
 const config = getConfig();
-let openGrokClient: OpenGrokClient;
-let authHandler: OpenGrokAuth | undefined;
 
-// Initialize authentication (non-blocking)
-async function initializeClientAsync() {
+/**
+ * Credentials used to authenticate against OpenGrok
+ */
+interface ClientCredentials {
+  cookieString?: string;
+  username?: string;
+  password?: string;
+  useOAuth?: boolean;
+}
+
+// Cache, retry and request limit settings shared by every client
+// Over HTTP every session has its own cache, so the configured limits are split
+// across the maximum number of sessions to keep the total bounded
+const cacheShares = config.transport === 'http' && config.httpMaxSessions > 0 ? config.httpMaxSessions : 1;
+
+const clientOptions: OpenGrokClientOptions = {
+  cache: config.cacheEnabled
+    ? {
+        maxEntries: Math.max(1, Math.floor(config.cacheMaxEntries / cacheShares)),
+        maxBytes: Math.floor((config.cacheMaxMb * 1024 * 1024) / cacheShares),
+        // HTTP sessions belong to different users, so they must not share a disk store
+        directory: config.transport === 'stdio' ? config.cacheDir : undefined,
+        indexCheckIntervalMs: config.cacheIndexCheckSeconds * 1000,
+      }
+    : undefined,
+  resilience: {
+    retries: config.retries,
+    baseDelayMs: config.retryBaseDelayMs,
+    maxDelayMs: config.retryMaxDelayMs,
+    failureThreshold: config.breakerThreshold,
+    resetTimeoutMs: config.breakerResetSeconds * 1000,
+  },
+  // One limiter for the whole process, so concurrent sessions share the limits
+  limiter: new RequestLimiter({
+    maxConcurrent: config.maxConcurrentRequests,
+    maxConcurrentPerEndpoint: config.maxConcurrentPerEndpoint,
+    ratePerSecond: config.requestsPerSecond,
+    burst: config.requestBurst,
+  }),
+};
+
+// Initialize authentication and create a client (non-blocking)
+async function createClientAsync(credentials: ClientCredentials): Promise<OpenGrokClient> {
   try {
-    if (config.useOAuth || (!config.username && !config.password)) {
+    if (credentials.useOAuth || (!credentials.username && !credentials.password)) {
       console.error('Using OAuth/SSO authentication...');
-      authHandler = new OpenGrokAuth({
+      const authHandler = new OpenGrokAuth({
         baseUrl: config.baseUrl,
-        cookieString: config.cookieString,
+        cookieString: credentials.cookieString,
       });
 
       // Check if already authenticated
       const isAuth = await authHandler.isAuthenticated();
-      if (!isAuth && !config.cookieString) {
+      if (!isAuth && !credentials.cookieString) {
         console.error('⚠️  Not authenticated. Please do the following:');
         console.error('');
         console.error('1. Visit: ' + config.baseUrl);
@@ -44,23 +100,27 @@ async function initializeClientAsync() {
         console.error('✓ Successfully authenticated with OAuth/SSO');
       }
 
-      openGrokClient = new OpenGrokClient(
+      return new OpenGrokClient(
         config.baseUrl,
-        authHandler.getCookieJar()
+        authHandler.getCookieJar(),
+        undefined,
+        undefined,
+        clientOptions
       );
     } else {
       console.error('Using basic authentication...');
-      openGrokClient = new OpenGrokClient(
+      return new OpenGrokClient(
         config.baseUrl,
         undefined,
-        config.username,
-        config.password
+        credentials.username,
+        credentials.password,
+        clientOptions
       );
     }
   } catch (error) {
     console.error('Failed to initialize client:', error);
     // Create a client anyway so server can start
-    openGrokClient = new OpenGrokClient(config.baseUrl);
+    return new OpenGrokClient(config.baseUrl, undefined, undefined, undefined, clientOptions);
   }
 }
 
@@ -68,7 +128,7 @@ async function initializeClientAsync() {
 const tools: Tool[] = [
   {
     name: 'opengrok_search',
-    description: 'Search for code in OpenGrok with different search modes using the REST API. Returns file paths, line numbers, and code snippets.',
+    description: 'Search for code in OpenGrok with different search modes using the REST API. Returns file paths, line numbers, and plain-text code snippets with highlight ranges, plus the total result count and a nextCursor when more results are available.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -78,7 +138,20 @@ const tools: Tool[] = [
         },
         project: {
           type: 'string',
-          description: 'Project to search in (REQUIRED). Use opengrok_list_projects to see available projects.',
+          description: 'Project to search in (required unless projects, allProjects or group is given). Use opengrok_list_projects to see available projects.',
+        },
+        projects: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Search several projects at once. Results are grouped by the project each hit belongs to.',
+        },
+        allProjects: {
+          type: 'boolean',
+          description: 'Search all indexed projects. Results are grouped by project.',
+        },
+        group: {
+          type: 'string',
+          description: 'Project group to search instead of a single project. Searches every project in the group and merges the results. Use opengrok_list_groups to see available groups.',
         },
         searchType: {
           type: 'string',
@@ -95,13 +168,181 @@ const tools: Tool[] = [
           description: 'Maximum number of results to return (default: 50)',
           default: 50,
         },
+        includeHtml: {
+          type: 'boolean',
+          description: 'Also return each snippet as the original OpenGrok HTML (snippetHtml). Snippets are plain text with highlight ranges by default.',
+          default: false,
+        },
+        contextBefore: {
+          type: 'number',
+          description: 'Lines of context to include before each hit. When contextBefore or contextAfter is set, hits are returned as per-file blocks of numbered lines (matching lines marked with ">"), merging hits whose context overlaps.',
+          default: 0,
+        },
+        contextAfter: {
+          type: 'number',
+          description: 'Lines of context to include after each hit',
+          default: 0,
+        },
+        sort: {
+          type: 'string',
+          enum: ['relevancy', 'fullpath', 'lastmodtime'],
+          description: 'Result order: relevancy (default), fullpath (alphabetical by path) or lastmodtime (most recently modified first)',
+        },
+        start: {
+          type: 'number',
+          description: 'Index of the first matching file to return (for paging). Prefer cursor.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from a previous response with the same query, to fetch the next page',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'opengrok_search_composite',
+    description: 'Search with any combination of OpenGrok query fields at once, e.g. definitions of "init" under path "drivers/net" in C files. All given fields must match. Returns the same envelope as opengrok_search.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        full: {
+          type: 'string',
+          description: 'Full-text query',
+        },
+        def: {
+          type: 'string',
+          description: 'Definition query (symbol definitions)',
+        },
+        symbol: {
+          type: 'string',
+          description: 'Symbol reference query',
+        },
+        path: {
+          type: 'string',
+          description: 'File path query (e.g., drivers/net or "*.h")',
+        },
+        hist: {
+          type: 'string',
+          description: 'History (commit message) query',
+        },
+        type: {
+          type: 'string',
+          description: 'File type filter (e.g., c, cxx, java, python)',
+        },
+        project: {
+          type: 'string',
+          description: 'Project to search in (required unless projects or allProjects is given)',
+        },
+        projects: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Search several projects at once. Results are grouped by project.',
+        },
+        allProjects: {
+          type: 'boolean',
+          description: 'Search all indexed projects. Results are grouped by project.',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of results to return (default: 50)',
+          default: 50,
+        },
+        includeHtml: {
+          type: 'boolean',
+          description: 'Also return each snippet as the original OpenGrok HTML (snippetHtml). Snippets are plain text with highlight ranges by default.',
+          default: false,
+        },
+        contextBefore: {
+          type: 'number',
+          description: 'Lines of context to include before each hit. When contextBefore or contextAfter is set, hits are returned as per-file blocks of numbered lines (matching lines marked with ">"), merging hits whose context overlaps.',
+          default: 0,
+        },
+        contextAfter: {
+          type: 'number',
+          description: 'Lines of context to include after each hit',
+          default: 0,
+        },
+        sort: {
+          type: 'string',
+          enum: ['relevancy', 'fullpath', 'lastmodtime'],
+          description: 'Result order (default: relevancy)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from a previous response with the same fields, to fetch the next page',
+        },
+      },
+    },
+  },
+  {
+    name: 'opengrok_structured_search',
+    description: 'Full-text search from a structured query instead of a raw Lucene string. The server escapes special characters (: ( ) - / etc.) and validates the query before searching, with a clear explanation when it is invalid.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'object',
+          description: 'Query tree. Node shapes: {"term": "foo::bar"} (escaped literal), {"phrase": "exact words"}, {"wildcard": "init*"} (* and ? allowed), {"regex": "get[A-Z][a-zA-Z0-9_]+"} (Lucene regex matching a whole term; no ^, $, \\d or lookarounds), {"field": "defs"|"refs"|"path"|"hist"|"type"|"full", "query": <node>}, {"and": [<node>, ...]}, {"or": [<node>, ...]}, {"not": <node>} (only inside "and"). Example: {"and": [{"field": "defs", "query": {"term": "init"}}, {"field": "path", "query": {"term": "drivers/net"}}]}',
+        },
+        type: {
+          type: 'string',
+          description: 'File type filter (e.g., c, cxx, java, python)',
+        },
+        project: {
+          type: 'string',
+          description: 'Project to search in (required unless projects or allProjects is given)',
+        },
+        projects: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Search several projects at once. Results are grouped by project.',
+        },
+        allProjects: {
+          type: 'boolean',
+          description: 'Search all indexed projects. Results are grouped by project.',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of results to return (default: 50)',
+          default: 50,
+        },
+        includeHtml: {
+          type: 'boolean',
+          description: 'Also return each snippet as the original OpenGrok HTML (snippetHtml). Snippets are plain text with highlight ranges by default.',
+          default: false,
+        },
+        contextBefore: {
+          type: 'number',
+          description: 'Lines of context to include before each hit. When contextBefore or contextAfter is set, hits are returned as per-file blocks of numbered lines (matching lines marked with ">"), merging hits whose context overlaps.',
+          default: 0,
+        },
+        contextAfter: {
+          type: 'number',
+          description: 'Lines of context to include after each hit',
+          default: 0,
+        },
+        sort: {
+          type: 'string',
+          enum: ['relevancy', 'fullpath', 'lastmodtime'],
+          description: 'Result order (default: relevancy)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'nextCursor from a previous response with the same query, to fetch the next page',
+        },
+        buildOnly: {
+          type: 'boolean',
+          description: 'Only build and validate the query string, without searching',
+          default: false,
+        },
       },
-      required: ['query', 'project'],
+      required: ['query'],
     },
   },
   {
     name: 'opengrok_get_file',
-    description: 'Get the content of a specific file from OpenGrok using the REST API.',
+    description: 'Get the content of a specific file from OpenGrok using the REST API. Supports line ranges, a window around a line, line numbers, and chunked paging for large files.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -109,13 +350,43 @@ const tools: Tool[] = [
           type: 'string',
           description: 'File path relative to source root (e.g., path/to/file.java).',
         },
+        startLine: {
+          type: 'number',
+          description: 'First line to return (1-based, inclusive)',
+        },
+        endLine: {
+          type: 'number',
+          description: 'Last line to return (inclusive)',
+        },
+        aroundLine: {
+          type: 'number',
+          description: 'Return a window centred on this line (overrides startLine/endLine)',
+        },
+        context: {
+          type: 'number',
+          description: 'Number of lines before and after aroundLine (default: 10)',
+          default: 10,
+        },
+        lineNumbers: {
+          type: 'boolean',
+          description: 'Prefix every line with its line number',
+          default: false,
+        },
+        maxLines: {
+          type: 'number',
+          description: 'Return at most this many lines plus a cursor to fetch the next chunk. Use this to page through large files.',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Continuation cursor returned by a previous chunked call. Pass it together with the same path.',
+        },
       },
       required: ['path'],
     },
   },
   {
     name: 'opengrok_xref',
-    description: 'Find cross-references for a symbol (definitions and usages) using the search API.',
+    description: 'Find cross-references for a symbol using the search API. Definitions are labelled type "definition" and include kind, signature and line span; usages are labelled type "reference".',
     inputSchema: {
       type: 'object',
       properties: {
@@ -131,6 +402,51 @@ const tools: Tool[] = [
       required: ['symbol'],
     },
   },
+  {
+    name: 'opengrok_get_definition',
+    description: 'Go to definition: resolve a symbol to its definition(s) and return only the source lines of each definition body, with kind, signature and line span. Much cheaper than fetching whole files.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Symbol name to resolve',
+        },
+        project: {
+          type: 'string',
+          description: 'Project name (optional)',
+        },
+        kind: {
+          type: 'string',
+          description: 'Only return definitions of this kind (e.g., function, class, method, macro, struct)',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of definitions to return (default: 10)',
+          default: 10,
+        },
+      },
+      required: ['symbol'],
+    },
+  },
+  {
+    name: 'opengrok_get_enclosing_definition',
+    description: 'Expand a line (typically a search hit) to the innermost function, method or class that contains it. Returns the symbol, kind, signature, line span and source of that definition.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path (e.g., /project/src/main.c)',
+        },
+        line: {
+          type: 'number',
+          description: 'Line number inside the file (e.g., the line of a search hit)',
+        },
+      },
+      required: ['path', 'line'],
+    },
+  },
   {
     name: 'opengrok_list_projects',
     description: 'List all available projects in OpenGrok via the REST API.',
@@ -139,6 +455,32 @@ const tools: Tool[] = [
       properties: {},
     },
   },
+  {
+    name: 'opengrok_list_groups',
+    description: 'List all project groups in OpenGrok. Groups bundle related projects (e.g., by product).',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'opengrok_get_group',
+    description: 'Get the project name pattern of a group and all projects it contains (including subgroups).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        group: {
+          type: 'string',
+          description: 'Group name',
+        },
+        project: {
+          type: 'string',
+          description: 'Optional project name to check against the group pattern',
+        },
+      },
+      required: ['group'],
+    },
+  },
   {
     name: 'opengrok_get_annotation',
     description: 'Get annotation information for a specific file including revision, author, and description.',
@@ -167,6 +509,54 @@ const tools: Tool[] = [
       required: ['path'],
     },
   },
+  {
+    name: 'opengrok_get_project_overview',
+    description: 'Summarise a project in one call: repositories with type, branch, current version and remote; top-level directories with line counts; file-extension breakdown; and the last index time. Start here when exploring an unfamiliar codebase.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Project name (optional if a default project is configured)',
+        },
+      },
+    },
+  },
+  {
+    name: 'opengrok_get_directory_tree',
+    description: 'Get a recursive directory tree in one call, with line counts (numLines, loc) and sizes aggregated per subtree. Use include/exclude globs and maxDepth to focus on the interesting parts of a project.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Root directory (e.g., /project/src/)',
+        },
+        maxDepth: {
+          type: 'number',
+          description: 'Directory levels to descend (default: 3). Deeper directories are shown with their totals but not expanded.',
+          default: 3,
+        },
+        include: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only keep files matching one of these globs (e.g., ["*.java", "src/**/*.ts"]). Globs without "/" match file names.',
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Skip files and directories matching one of these globs (e.g., ["test", "**/generated/**"])',
+        },
+        format: {
+          type: 'string',
+          enum: ['text', 'json'],
+          description: 'Output as indented text (default) or as a JSON tree',
+          default: 'text',
+        },
+      },
+      required: ['path'],
+    },
+  },
   {
     name: 'opengrok_get_history',
     description: 'Get history entries for a file or directory.',
@@ -207,6 +597,53 @@ const tools: Tool[] = [
       required: ['path'],
     },
   },
+  {
+    name: 'opengrok_find_file',
+    description: 'Go to file: find files by a partial or half-remembered name (e.g., "UsrAuthCtrl" or "auth/UserCtl"), ranked by fuzzy subsequence matching like an editor\'s quick-open. Use it when an exact path search finds nothing.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Partial file name or path; characters must appear in order',
+        },
+        project: {
+          type: 'string',
+          description: 'Project name (optional if a default project is configured)',
+        },
+        maxResults: {
+          type: 'number',
+          description: 'Maximum number of matches to return (default: 20)',
+          default: 20,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'opengrok_get_file_outline',
+    description: 'Get a compact outline of a file: its definitions nested by namespace and line containment (class → method → local), each with kind, signature and line span. Use it to navigate large files without reading them.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path relative to source root (e.g., path/to/file.java)',
+        },
+        format: {
+          type: 'string',
+          enum: ['text', 'json'],
+          description: 'Output as indented text (default, one "symbol [kind] lines  signature" per line) or as a JSON tree',
+          default: 'text',
+        },
+        maxDepth: {
+          type: 'number',
+          description: 'Maximum nesting depth to show (e.g., 2 to hide locals inside methods). Default: unlimited',
+        },
+      },
+      required: ['path'],
+    },
+  },
   {
     name: 'opengrok_get_file_genre',
     description: 'Get the detected genre of a file (e.g., PLAIN, XREFABLE, IMAGE, DATA, HTML).',
@@ -267,7 +704,7 @@ const tools: Tool[] = [
   },
   {
     name: 'opengrok_get_project_indexed_files',
-    description: 'Get list of files tracked by the index database for a specific project.',
+    description: 'Get list of files tracked by the index database for a specific project. Supports glob/regex/extension filters and offset/limit paging; mode "count" returns only the number of matching files and mode "summary" groups them by top-level directory and extension.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -275,6 +712,36 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Project name',
         },
+        globs: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only files matching one of these globs, relative to the project root (e.g., ["src/**/*.java"]). Globs without "/" match file names.',
+        },
+        regex: {
+          type: 'string',
+          description: 'Only files whose full path matches this regular expression',
+        },
+        extensions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only files with one of these extensions (e.g., ["java", "kt"])',
+        },
+        mode: {
+          type: 'string',
+          enum: ['list', 'count', 'summary'],
+          description: 'list (default): a page of paths; count: only the number of matching files; summary: counts per top-level directory and extension',
+          default: 'list',
+        },
+        offset: {
+          type: 'number',
+          description: 'Index of the first file to return (default: 0)',
+          default: 0,
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of files to return (default: 500)',
+          default: 500,
+        },
       },
       required: ['project'],
     },
@@ -320,73 +787,569 @@ const tools: Tool[] = [
   },
 ];
 
-// Create MCP server
-const server = new Server(
+// Administrative tools, only listed when OPENGROK_ENABLE_ADMIN_TOOLS=true
+const projectAdminSchema = {
+  type: 'object' as const,
+  properties: {
+    project: {
+      type: 'string',
+      description: 'Project name',
+    },
+    dryRun: {
+      type: 'boolean',
+      description: 'Only describe the request that would be sent, without changing anything',
+      default: false,
+    },
+  },
+  required: ['project'],
+};
+
+const adminTools: Tool[] = [
   {
-    name: 'opengrok-mcp-server',
-    version: '1.0.0',
+    name: 'opengrok_admin_add_project',
+    description: 'Add a project to the OpenGrok configuration. The project directory must already exist under the source root.',
+    inputSchema: projectAdminSchema,
+    annotations: {
+      title: 'Add project',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
   },
   {
-    capabilities: {
-      tools: {},
+    name: 'opengrok_admin_delete_project',
+    description: 'Delete a project from the OpenGrok configuration, together with its index data. Cannot be undone.',
+    inputSchema: projectAdminSchema,
+    annotations: {
+      title: 'Delete project',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
     },
-  }
-);
-
-// Handle tool list requests
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
-
-// Handle tool execution requests
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case 'opengrok_search': {
-        const { query, project, searchType = 'full', language, maxResults = 50 } = args as {
-          query: string;
-          project?: string;
-          searchType?: 'full' | 'defs' | 'refs' | 'path' | 'hist';
-          language?: string;
-          maxResults?: number;
-        };
+  },
+  {
+    name: 'opengrok_admin_delete_project_index_data',
+    description: 'Delete the index data of a project. The project stays configured but is unsearchable until reindexed.',
+    inputSchema: projectAdminSchema,
+    annotations: {
+      title: 'Delete project index data',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'opengrok_admin_delete_project_history_cache',
+    description: 'Delete the history cache of a project. History is regenerated on the next indexer run.',
+    inputSchema: projectAdminSchema,
+    annotations: {
+      title: 'Delete project history cache',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'opengrok_admin_delete_project_annotation_cache',
+    description: 'Delete the annotation cache of a project. Annotations are regenerated on the next indexer run.',
+    inputSchema: projectAdminSchema,
+    annotations: {
+      title: 'Delete project annotation cache',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'opengrok_admin_mark_project_indexed',
+    description: 'Mark a project as indexed so that it becomes visible in the web application.',
+    inputSchema: projectAdminSchema,
+    annotations: {
+      title: 'Mark project as indexed',
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'opengrok_admin_set_project_property',
+    description: 'Set a project property (e.g., historyEnabled, tabSize, navigateWindowEnabled).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        project: {
+          type: 'string',
+          description: 'Project name',
+        },
+        property: {
+          type: 'string',
+          description: 'Property name',
+        },
+        value: {
+          type: 'string',
+          description: 'Property value',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only describe the request that would be sent, without changing anything',
+          default: false,
+        },
+      },
+      required: ['project', 'property', 'value'],
+    },
+    annotations: {
+      title: 'Set project property',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+  },
+  {
+    name: 'opengrok_admin_set_configuration_field',
+    description: 'Set a field of the OpenGrok web application configuration, optionally triggering a reindex.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        field: {
+          type: 'string',
+          description: 'Configuration field name (e.g., hitsPerPage)',
+        },
+        value: {
+          type: 'string',
+          description: 'Field value',
+        },
+        reindex: {
+          type: 'boolean',
+          description: 'Whether to reload the index after the change',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Only describe the request that would be sent, without changing anything',
+          default: false,
+        },
+      },
+      required: ['field', 'value'],
+    },
+    annotations: {
+      title: 'Set configuration field',
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+  },
+];
 
-        if (!project || project.trim() === '') {
-          throw new Error('Project parameter is required. Use opengrok_list_projects to see available projects.');
+const adminToolNames = new Set(adminTools.map((tool) => tool.name));
+
+/**
+ * Whether a name can be used as one URL path segment without changing the request's target
+ */
+function isPathSegment(value: string): boolean {
+  return value.trim() !== '' && !/[/?#\\]/.test(value) && !value.includes('..');
+}
+
+/**
+ * Describe an admin request for dry runs
+ */
+function dryRunResult(method: string, endpoint: string, effect: string, body?: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          dryRun: true,
+          request: body === undefined ? `${method} /api/v1${endpoint}` : `${method} /api/v1${endpoint} (body: ${JSON.stringify(body)})`,
+          effect,
+        }, null, 2),
+      },
+    ],
+  };
+}
+
+interface PresentOptions {
+  includeHtml?: boolean;
+  contextBefore?: number;
+  contextAfter?: number;
+}
+
+/**
+ * Shape search results for output: drop the HTML snippet unless requested,
+ * replace hits with blocks of surrounding lines when context is requested,
+ * and group by project when several projects were searched
+ */
+async function presentResults(
+  openGrokClient: OpenGrokClient,
+  results: SearchResult[],
+  byProject: boolean,
+  { includeHtml = false, contextBefore = 0, contextAfter = 0 }: PresentOptions
+) {
+  if (contextBefore > 0 || contextAfter > 0) {
+    const blocks = (await openGrokClient.getHitContext(results, contextBefore, contextAfter)).map(({ lines, ...block }) => {
+      const hits = new Set(block.hitLines);
+      // Mark matching lines with ">" so they stand out from the context
+      const content = numberLines(lines, block.startLine)
+        .map((line, index) => `${hits.has(block.startLine + index) ? '>' : ' '} ${line}`)
+        .join('\n');
+      return { ...block, content };
+    });
+    return byProject ? groupByProject(blocks) : blocks;
+  }
+
+  const shaped = includeHtml ? results : results.map(({ snippetHtml, ...result }) => result);
+  return byProject ? groupByProject(shaped) : shaped;
+}
+
+/**
+ * Render a directory tree as indented text with per-subtree totals
+ */
+function formatDirectoryTree(node: DirectoryTreeNode, indent: string = ''): string {
+  const name = indent === '' ? node.path : node.path.split('/').filter((segment) => segment !== '').pop() + (node.isDirectory ? '/' : '');
+  const totals = node.isDirectory && node.files !== undefined
+    ? `${node.files} files, ${node.loc} loc, ${node.numLines} lines, ${node.size} bytes`
+    : `${node.loc} loc, ${node.numLines} lines, ${node.size} bytes`;
+  const note = node.unfiltered ? ', not expanded, totals ignore filters' : node.truncated ? ', not expanded' : '';
+  const line = `${indent}${name}  (${totals}${note})`;
+  const children = (node.children || []).map((child) => formatDirectoryTree(child, indent + '  '));
+  return [line, ...children].join('\n');
+}
+
+/**
+ * Create an MCP server bound to one OpenGrok client
+ */
+function createServer(openGrokClient: OpenGrokClient): Server {
+  const server = new Server(
+    {
+      name: 'opengrok-mcp-server',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // Handle tool list requests
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: config.enableAdminTools ? [...tools, ...adminTools] : tools };
+  });
+
+  // Handle tool execution requests; notifications/cancelled aborts extra.signal,
+  // which cancels the OpenGrok requests still in flight for the call
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    return runWithSignal(extra.signal, () => callTool(openGrokClient, name, args));
+  });
+
+  // Handle resource list requests
+  server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+    return runWithSignal(extra.signal, async () => ({ resources: await listResources(openGrokClient) }));
+  });
+
+  // Handle resource template list requests
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  // Handle resource read requests
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    const contents = await runWithSignal(extra.signal, () => readResource(openGrokClient, request.params.uri));
+    return { contents: [contents] };
+  });
+
+  // Handle prompt list requests
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts };
+  });
+
+  // Handle prompt requests
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    return getPrompt(name, args, config.defaultProject);
+  });
+
+  return server;
+}
+
+// Execute a tool call against the given client
+async function callTool(openGrokClient: OpenGrokClient, name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult> {
+  try {
+    if (adminToolNames.has(name) && !config.enableAdminTools) {
+      throw new Error(`Tool ${name} is disabled. Set OPENGROK_ENABLE_ADMIN_TOOLS=true to enable administrative tools.`);
+    }
+    if (adminToolNames.has(name)) {
+      // These names become URL path segments of destructive requests
+      for (const key of ['project', 'property', 'field']) {
+        const value = args?.[key];
+        if (typeof value === 'string' && !isPathSegment(value)) {
+          throw new InvalidQueryError(`Invalid ${key} "${value}": it must not be empty or contain "/", "?", "#" or ".."`, {
+            hint: 'Pass the plain name, e.g. a project name from opengrok_list_projects.',
+          });
         }
+      }
+    }
 
-        const results = await openGrokClient.search(
-          query,
-          project,
-          searchType,
-          language,
-          maxResults
-        );
+    switch (name) {
+      case 'opengrok_search': {
+        const { query, project, projects, allProjects, group, searchType = 'full', language, maxResults = 50, sort, start: requestedStart = 0, cursor, includeHtml = false, contextBefore = 0, contextAfter = 0 } = args as {
+          query: string;
+          project?: string;
+          projects?: string[];
+          allProjects?: boolean;
+          group?: string;
+          searchType?: SearchType;
+          language?: string;
+          maxResults?: number;
+          sort?: SearchSort;
+          start?: number;
+          cursor?: string;
+          includeHtml?: boolean;
+          contextBefore?: number;
+          contextAfter?: number;
+        };
+
+        // A cursor only continues the result set it was created for
+        const fingerprint = JSON.stringify({ query, searchType, project, projects, allProjects, group, language, sort });
+
+        let start = requestedStart;
+        if (cursor) {
+          const position = decodeCursor<{ search: string; start: number }>('search', cursor);
+          if (position.search !== fingerprint) {
+            throw new Error('Cursor belongs to a different search. Repeat the original query, searchType, projects, group, language and sort with this cursor.');
+          }
+          start = position.start;
+        }
+
+        let page: SearchPage;
+        let multiProject = true;
+
+        if (group && group.trim() !== '') {
+          page = await openGrokClient.searchGroup(query, group, searchType, language, maxResults, start, sort);
+        } else if (allProjects) {
+          page = await openGrokClient.searchAllProjects(query, searchType, language, maxResults, start, sort);
+        } else if (projects && projects.length > 0) {
+          page = await openGrokClient.searchPage(query, projects, searchType, language, maxResults, start, sort);
+          multiProject = projects.length > 1;
+        } else {
+          if (!project || project.trim() === '') {
+            throw new Error('Project parameter is required (or pass projects, allProjects or group). Use opengrok_list_projects to see available projects.');
+          }
+
+          page = await openGrokClient.searchPage(
+            query,
+            project,
+            searchType,
+            language,
+            maxResults,
+            start,
+            sort
+          );
+          multiProject = false;
+        }
+
+        const { results, nextStart, ...totals } = page;
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(results, null, 2),
+              text: JSON.stringify({
+                ...totals,
+                nextCursor: nextStart !== undefined ? encodeCursor('search', { search: fingerprint, start: nextStart }) : undefined,
+                results: await presentResults(openGrokClient, results, multiProject, { includeHtml, contextBefore, contextAfter }),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_search_composite': {
+        const { full, def, symbol, path, hist, type, project, projects, allProjects, maxResults = 50, sort, cursor, includeHtml = false, contextBefore = 0, contextAfter = 0 } = args as CompositeQuery & {
+          project?: string;
+          projects?: string[];
+          allProjects?: boolean;
+          maxResults?: number;
+          sort?: SearchSort;
+          cursor?: string;
+          includeHtml?: boolean;
+          contextBefore?: number;
+          contextAfter?: number;
+        };
+
+        const fields: CompositeQuery = { full, def, symbol, path, hist, type };
+        const fingerprint = JSON.stringify({ ...fields, project, projects, allProjects, sort });
+
+        let start = 0;
+        if (cursor) {
+          const position = decodeCursor<{ fields: string; start: number }>('composite', cursor);
+          if (position.fields !== fingerprint) {
+            throw new Error('Cursor belongs to a different search. Repeat the original fields, projects and sort with this cursor.');
+          }
+          start = position.start;
+        }
+
+        let targets: string[];
+        if (allProjects) {
+          targets = await openGrokClient.getIndexedProjects();
+        } else if (projects && projects.length > 0) {
+          targets = projects;
+        } else if (project && project.trim() !== '') {
+          targets = [project];
+        } else {
+          throw new Error('Project parameter is required (or pass projects or allProjects). Use opengrok_list_projects to see available projects.');
+        }
+
+        const { results, nextStart, ...totals } = await openGrokClient.compositeSearch(fields, targets, maxResults, start, sort);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                ...totals,
+                nextCursor: nextStart !== undefined ? encodeCursor('composite', { fields: fingerprint, start: nextStart }) : undefined,
+                results: await presentResults(openGrokClient, results, targets.length > 1, { includeHtml, contextBefore, contextAfter }),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_structured_search': {
+        const { query, type, project, projects, allProjects, maxResults = 50, sort, cursor, buildOnly = false, includeHtml = false, contextBefore = 0, contextAfter = 0 } = args as {
+          query: QueryNode;
+          type?: string;
+          project?: string;
+          projects?: string[];
+          allProjects?: boolean;
+          maxResults?: number;
+          sort?: SearchSort;
+          cursor?: string;
+          buildOnly?: boolean;
+          includeHtml?: boolean;
+          contextBefore?: number;
+          contextAfter?: number;
+        };
+
+        const full = buildQuery(query);
+        const fingerprint = JSON.stringify({ full, type, project, projects, allProjects, sort });
+
+        if (buildOnly) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ query: full }, null, 2),
+              },
+            ],
+          };
+        }
+
+        let targets: string[];
+        if (allProjects) {
+          targets = await openGrokClient.getIndexedProjects();
+        } else if (projects && projects.length > 0) {
+          targets = projects;
+        } else if (project && project.trim() !== '') {
+          targets = [project];
+        } else {
+          throw new Error('Project parameter is required (or pass projects or allProjects). Use opengrok_list_projects to see available projects.');
+        }
+
+        let start = 0;
+        if (cursor) {
+          const position = decodeCursor<{ fields: string; start: number }>('composite', cursor);
+          if (position.fields !== fingerprint) {
+            throw new Error('Cursor belongs to a different search. Repeat the original query, type, projects and sort with this cursor.');
+          }
+          start = position.start;
+        }
+
+        const { results, nextStart, ...totals } = await openGrokClient.compositeSearch({ full, type }, targets, maxResults, start, sort, false);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                query: full,
+                ...totals,
+                nextCursor: nextStart !== undefined ? encodeCursor('composite', { fields: fingerprint, start: nextStart }) : undefined,
+                results: await presentResults(openGrokClient, results, targets.length > 1, { includeHtml, contextBefore, contextAfter }),
+              }, null, 2),
             },
           ],
         };
       }
 
       case 'opengrok_get_file': {
-        const { path } = args as {
+        const { path, startLine, endLine, aroundLine, context, lineNumbers = false, maxLines, cursor } = args as {
           path: string;
+          startLine?: number;
+          endLine?: number;
+          aroundLine?: number;
+          context?: number;
+          lineNumbers?: boolean;
+          maxLines?: number;
+          cursor?: string;
         };
 
         const fileContent = await openGrokClient.getFileContent(path);
 
+        const ranged = [startLine, endLine, aroundLine, maxLines, cursor].some((value) => value !== undefined);
+        if (!ranged && !lineNumbers) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: fileContent.content,
+              },
+            ],
+          };
+        }
+
+        const lines = splitLines(fileContent.content);
+        const options: LineRangeOptions = { startLine, endLine, aroundLine, context, maxLines };
+        if (cursor) {
+          const position = decodeCursor<{ path: string; line: number; end?: number; maxLines: number }>('file', cursor);
+          if (position.path !== path) {
+            throw new Error(`Cursor belongs to ${position.path}, not ${path}`);
+          }
+          // Continue within the originally requested range, not to the end of the file
+          options.startLine = position.line;
+          options.endLine = position.end;
+          options.aroundLine = undefined;
+          options.maxLines = maxLines ?? position.maxLines;
+        }
+
+        const range = resolveLineRange(lines.length, options);
+        const selected = sliceLines(lines, range.start, range.end);
+        const body = (lineNumbers ? numberLines(selected, range.start) : selected).join('\n');
+
+        if (!ranged) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: body,
+              },
+            ],
+          };
+        }
+
+        const parts = [`[${path}: lines ${range.start}-${range.end} of ${lines.length}]`, body];
+        if (range.nextStart !== undefined) {
+          const nextCursor = encodeCursor('file', { path, line: range.nextStart, end: range.rangeEnd, maxLines: range.end - range.start + 1 });
+          parts.push(`[More lines available. Call opengrok_get_file with path "${path}" and cursor "${nextCursor}" to continue at line ${range.nextStart}.]`);
+        }
+
         return {
           content: [
             {
               type: 'text',
-              text: fileContent.content,
+              text: parts.join('\n'),
             },
           ],
         };
@@ -413,6 +1376,68 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'opengrok_get_definition': {
+        const { symbol, project, kind, maxResults = 10 } = args as {
+          symbol: string;
+          project?: string;
+          kind?: string;
+          maxResults?: number;
+        };
+
+        const definitions = await openGrokClient.getDefinitions(
+          symbol,
+          project || config.defaultProject,
+          kind,
+          maxResults
+        );
+
+        if (definitions.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No definition found for ${symbol}${kind ? ` (kind: ${kind})` : ''}`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(definitions, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_get_enclosing_definition': {
+        const { path, line } = args as { path: string; line: number };
+
+        const definition = await openGrokClient.getEnclosingDefinition(path, line);
+
+        if (!definition) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Line ${line} of ${path} is not inside any known definition`,
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(definition, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'opengrok_list_projects': {
         const projects = await openGrokClient.listProjects();
 
@@ -426,6 +1451,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'opengrok_list_groups': {
+        const groups = await openGrokClient.listGroups();
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(groups, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_get_group': {
+        const { group, project } = args as {
+          group: string;
+          project?: string;
+        };
+
+        const [pattern, projects, matches] = await Promise.all([
+          openGrokClient.getGroupPattern(group),
+          openGrokClient.getGroupProjects(group),
+          project ? openGrokClient.checkGroupMatch(group, project) : Promise.resolve(undefined),
+        ]);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(project ? { group, pattern, projects, project, matches } : { group, pattern, projects }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'opengrok_get_annotation': {
         const { path } = args as {
           path: string;
@@ -460,6 +1520,54 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'opengrok_get_project_overview': {
+        const { project } = args as {
+          project?: string;
+        };
+
+        const targetProject = project || config.defaultProject;
+        if (!targetProject) {
+          throw new Error('Project parameter is required. Use opengrok_list_projects to see available projects.');
+        }
+
+        const overview = await openGrokClient.getProjectOverview(targetProject, config.treeConcurrency);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(overview, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_get_directory_tree': {
+        const { path, maxDepth = 3, include, exclude, format = 'text' } = args as {
+          path: string;
+          maxDepth?: number;
+          include?: string[];
+          exclude?: string[];
+          format?: 'text' | 'json';
+        };
+
+        const tree = await openGrokClient.getDirectoryTree(path, {
+          maxDepth,
+          include,
+          exclude,
+          concurrency: config.treeConcurrency,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: format === 'json' ? JSON.stringify(tree, null, 2) : formatDirectoryTree(tree),
+            },
+          ],
+        };
+      }
+
       case 'opengrok_get_history': {
         const { path, withFiles, start, max } = args as {
           path: string;
@@ -497,6 +1605,54 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'opengrok_find_file': {
+        const { query, project, maxResults = 20 } = args as {
+          query: string;
+          project?: string;
+          maxResults?: number;
+        };
+
+        const targetProject = project || config.defaultProject;
+        if (!targetProject) {
+          throw new Error('Project parameter is required. Use opengrok_list_projects to see available projects.');
+        }
+
+        const matches = await openGrokClient.findFiles(query, targetProject, maxResults);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: matches.length > 0 ? JSON.stringify(matches, null, 2) : `No files in ${targetProject} match "${query}"`,
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_get_file_outline': {
+        const { path, format = 'text', maxDepth } = args as {
+          path: string;
+          format?: 'text' | 'json';
+          maxDepth?: number;
+        };
+
+        let outline = buildOutline(await openGrokClient.getFileDefinitions(path));
+        if (maxDepth !== undefined && maxDepth > 0) {
+          outline = pruneOutline(outline, maxDepth);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: format === 'json'
+                ? JSON.stringify(outline, null, 2)
+                : (outline.length > 0 ? `${path}\n${formatOutline(outline, '  ')}` : `No definitions found in ${path}`),
+            },
+          ],
+        };
+      }
+
       case 'opengrok_get_file_genre': {
         const { path } = args as {
           path: string;
@@ -575,17 +1731,39 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'opengrok_get_project_indexed_files': {
-        const { project } = args as {
+        const { project, globs, regex, extensions, mode = 'list', offset = 0, limit = 500 } = args as {
           project: string;
+          globs?: string[];
+          regex?: string;
+          extensions?: string[];
+          mode?: 'list' | 'count' | 'summary';
+          offset?: number;
+          limit?: number;
         };
 
-        const indexedFiles = await openGrokClient.getProjectIndexedFiles(project);
+        const files = filterFiles(await openGrokClient.getProjectIndexedFiles(project), project, { globs, regex, extensions });
+
+        let result: unknown;
+        if (mode === 'count') {
+          result = { total: files.length };
+        } else if (mode === 'summary') {
+          result = summarizeFiles(files, project);
+        } else {
+          const page = files.slice(offset, offset + limit);
+          result = {
+            total: files.length,
+            offset,
+            returned: page.length,
+            nextOffset: offset + page.length < files.length ? offset + page.length : undefined,
+            files: page,
+          };
+        }
 
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(indexedFiles, null, 2),
+              text: JSON.stringify(result, null, 2),
             },
           ],
         };
@@ -636,6 +1814,187 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'opengrok_admin_add_project': {
+        const { project, dryRun } = args as {
+          project: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('POST', '/projects', `Add project "${project}" to the configuration`, project);
+        }
+
+        await openGrokClient.addProject(project);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Project "${project}" added`,
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_delete_project': {
+        const { project, dryRun } = args as {
+          project: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('DELETE', `/projects/${encodeURIComponent(project)}`, `Remove project "${project}" from the configuration and delete its index data`);
+        }
+
+        await openGrokClient.deleteProject(project);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Project "${project}" deleted`,
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_delete_project_index_data': {
+        const { project, dryRun } = args as {
+          project: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('DELETE', `/projects/${encodeURIComponent(project)}/data`, `Delete the index data of project "${project}"`);
+        }
+
+        await openGrokClient.deleteProjectIndexData(project);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Index data of project "${project}" deleted`,
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_delete_project_history_cache': {
+        const { project, dryRun } = args as {
+          project: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('DELETE', `/projects/${encodeURIComponent(project)}/historycache`, `Delete the history cache of all repositories in project "${project}"`);
+        }
+
+        const repositories = await openGrokClient.deleteProjectHistoryCache(project);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ project, deletedHistoryCacheFor: repositories }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_delete_project_annotation_cache': {
+        const { project, dryRun } = args as {
+          project: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('DELETE', `/projects/${encodeURIComponent(project)}/annotationcache`, `Delete the annotation cache of all repositories in project "${project}"`);
+        }
+
+        const repositories = await openGrokClient.deleteProjectAnnotationCache(project);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ project, deletedAnnotationCacheFor: repositories }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_mark_project_indexed': {
+        const { project, dryRun } = args as {
+          project: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('PUT', `/projects/${encodeURIComponent(project)}/indexed`, `Mark project "${project}" as indexed`);
+        }
+
+        await openGrokClient.markProjectAsIndexed(project);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Project "${project}" marked as indexed`,
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_set_project_property': {
+        const { project, property, value, dryRun } = args as {
+          project: string;
+          property: string;
+          value: string;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          return dryRunResult('PUT', `/projects/${encodeURIComponent(project)}/property/${encodeURIComponent(property)}`, `Set property "${property}" of project "${project}"`, value);
+        }
+
+        await openGrokClient.setProjectProperty(project, property, value);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Property "${property}" of project "${project}" set to ${JSON.stringify(value)}`,
+            },
+          ],
+        };
+      }
+
+      case 'opengrok_admin_set_configuration_field': {
+        const { field, value, reindex, dryRun } = args as {
+          field: string;
+          value: string;
+          reindex?: boolean;
+          dryRun?: boolean;
+        };
+
+        if (dryRun) {
+          const query = reindex !== undefined ? `?reindex=${reindex}` : '';
+          return dryRunResult('PUT', `/configuration/${encodeURIComponent(field)}${query}`, `Set configuration field "${field}"${reindex ? ' and reload the index' : ''}`, value);
+        }
+
+        await openGrokClient.setConfigurationField(field, value, reindex);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Configuration field "${field}" set to ${JSON.stringify(value)}`,
+            },
+          ],
+        };
+      }
+
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -644,18 +2003,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       content: [
         {
           type: 'text',
-          text: `Error: ${error.message}`,
+          text: describeError(error),
         },
       ],
       isError: true,
     };
   }
-});
+}
 
 // Start server
 async function main() {
+  if (config.transport === 'http') {
+    await startHttpServer({
+      host: config.httpHost,
+      port: config.httpPort,
+      path: config.httpPath,
+      allowSharedCredentials: config.httpSharedCredentials,
+      sessionIdleMs: config.httpSessionIdleMinutes * 60 * 1000,
+      maxSessions: config.httpMaxSessions,
+      // Every HTTP session gets its own client and cookie jar
+      createSession: async (credentials) => {
+        // Sessions without credentials only get this far when OPENGROK_HTTP_SHARED_CREDENTIALS is set
+        const openGrokClient = await createClientAsync(
+          credentials.cookieString || credentials.username ? credentials : config
+        );
+        return createServer(openGrokClient);
+      },
+    });
+    console.error(`OpenGrok MCP Server listening on http://${config.httpHost}:${config.httpPort}${config.httpPath}`);
+    console.error(`Connected to: ${config.baseUrl}`);
+    return;
+  }
+
   // Initialize authentication and client (non-blocking)
-  await initializeClientAsync();
+  const openGrokClient = await createClientAsync(config);
+  const server = createServer(openGrokClient);
 
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -0,0 +1,79 @@
+/**
+ * Helpers for working with file content line by line (line numbers are 1-based)
+ */
+
+/**
+ * Split file content into lines, accepting both LF and CRLF line endings
+ */
+export function splitLines(content: string): string[] {
+  const lines = content.split(/\r?\n/);
+  // A trailing newline does not start another line
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Return lines start..end (inclusive), clamped to the available lines
+ */
+export function sliceLines(lines: string[], start: number, end: number): string[] {
+  const from = Math.max(1, start);
+  const to = Math.min(lines.length, end);
+  return to < from ? [] : lines.slice(from - 1, to);
+}
+
+export interface LineRangeOptions {
+  startLine?: number;
+  endLine?: number;
+  aroundLine?: number;
+  context?: number;
+  maxLines?: number;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+  // Last line of the requested range, before maxLines cut it short
+  rangeEnd: number;
+  // Set when maxLines cut the range short
+  nextStart?: number;
+}
+
+/**
+ * Resolve range options against the number of lines in a file.
+ * aroundLine/context takes precedence over startLine/endLine.
+ */
+export function resolveLineRange(totalLines: number, options: LineRangeOptions): LineRange {
+  let start = options.startLine ?? 1;
+  let end = options.endLine ?? totalLines;
+
+  if (options.aroundLine !== undefined) {
+    const context = options.context ?? 10;
+    start = options.aroundLine - context;
+    end = options.aroundLine + context;
+  }
+
+  start = Math.max(1, start);
+  end = Math.min(totalLines, end);
+
+  if (totalLines > 0 && start > totalLines) {
+    throw new Error(`Line ${start} is past the end of the file (${totalLines} lines)`);
+  }
+  if (end < start) {
+    throw new Error(`Invalid line range ${start}-${end}`);
+  }
+
+  if (options.maxLines !== undefined && options.maxLines > 0 && end - start + 1 > options.maxLines) {
+    return { start, end: start + options.maxLines - 1, rangeEnd: end, nextStart: start + options.maxLines };
+  }
+  return { start, end, rangeEnd: end };
+}
+
+/**
+ * Prefix lines with right-aligned line numbers
+ */
+export function numberLines(lines: string[], firstLineNumber: number): string[] {
+  const width = String(firstLineNumber + lines.length - 1).length;
+  return lines.map((line, index) => `${String(firstLineNumber + index).padStart(width)}: ${line}`);
+}
@@ -1,6 +1,10 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { CookieJar } from 'tough-cookie';
 import { wrapper } from 'axios-cookiejar-support';
+import { ResilienceOptions, applyResilience } from './resilience.js';
+import { errorForStatus, toOpenGrokError } from './errors.js';
+import { RequestLimiter, applyRequestLimits } from './request-limiter.js';
+import { currentSignal } from './request-context.js';
 
 // 定义API响应类型
 export interface Annotation {
@@ -129,6 +133,13 @@ export interface SuggesterResponse {
   partialResult: boolean;
 }
 
+export interface OpenGrokApiClientOptions {
+  // 重试和熔断设置
+  resilience?: ResilienceOptions;
+  // 进程内共享的并发和速率限制
+  limiter?: RequestLimiter;
+}
+
 /**
  * 基于OpenGrok REST API的客户端实现
  */
@@ -136,7 +147,7 @@ export class OpenGrokApiClient {
   private client: AxiosInstance;
   private baseUrl: string;
 
-  constructor(baseUrl: string, cookieJar?: CookieJar, username?: string, password?: string) {
+  constructor(baseUrl: string, cookieJar?: CookieJar, username?: string, password?: string, options: OpenGrokApiClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
 
     const config: any = {
@@ -164,6 +175,20 @@ export class OpenGrokApiClient {
       }
       this.client = axios.create(config);
     }
+
+    // 将当前MCP请求的取消信号传给每个请求
+    this.client.interceptors.request.use((requestConfig) => {
+      requestConfig.signal ??= currentSignal();
+      return requestConfig;
+    });
+
+    // 为幂等请求添加重试和熔断
+    applyResilience(this.client, options.resilience);
+
+    // 限制并发和速率，合并相同的GET请求
+    if (options.limiter) {
+      applyRequestLimits(this.client, options.limiter);
+    }
   }
 
   /**
@@ -171,22 +196,20 @@ export class OpenGrokApiClient {
    * @param path 文件路径，相对于源码根目录
    */
   async getAnnotation(path: string): Promise<Annotation[]> {
+    const endpoint = '/annotation';
+
     try {
-      const response: AxiosResponse<Annotation[]> = await this.client.get('/annotation', {
+      const response: AxiosResponse<Annotation[]> = await this.client.get(endpoint, {
         params: { path }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 200) {
-        throw new Error(`Failed to get annotation: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get annotation');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get annotation: ${error.message}`);
+      throw toOpenGrokError(error, 'get annotation', endpoint);
     }
   }
 
@@ -194,21 +217,19 @@ export class OpenGrokApiClient {
    * 重新加载授权框架
    */
   async reloadAuthorizationFramework(): Promise<void> {
-    try {
-      const response = await this.client.post('/configuration/authorization/reload');
+    const endpoint = '/configuration/authorization/reload';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.post(endpoint);
 
       if (response.status === 202) {
         // 异步操作，需要检查状态
-        console.log('Authorization framework reload started. Check status with status endpoint.');
+        console.error('Authorization framework reload started. Check status with status endpoint.');
       } else if (response.status !== 204) {
-        throw new Error(`Failed to reload authorization framework: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'reload authorization framework');
       }
     } catch (error: any) {
-      throw new Error(`Failed to reload authorization framework: ${error.message}`);
+      throw toOpenGrokError(error, 'reload authorization framework', endpoint);
     }
   }
 
@@ -216,20 +237,18 @@ export class OpenGrokApiClient {
    * 获取配置信息
    */
   async getConfiguration(): Promise<Configuration> {
-    try {
-      const response = await this.client.get('/configuration');
+    const endpoint = '/configuration';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get configuration: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get configuration');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get configuration: ${error.message}`);
+      throw toOpenGrokError(error, 'get configuration', endpoint);
     }
   }
 
@@ -238,25 +257,23 @@ export class OpenGrokApiClient {
    * @param config XML格式的配置信息
    */
   async setConfiguration(config: string): Promise<void> {
+    const endpoint = '/configuration';
+
     try {
-      const response = await this.client.put('/configuration', config, {
+      const response = await this.client.put(endpoint, config, {
         headers: {
           'Content-Type': 'application/xml'
         }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status === 202) {
         // 异步操作，需要检查状态
-        console.log('Configuration update started. Check status with status endpoint.');
+        console.error('Configuration update started. Check status with status endpoint.');
       } else if (response.status !== 201) {
-        throw new Error(`Failed to set configuration: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'set configuration');
       }
     } catch (error: any) {
-      throw new Error(`Failed to set configuration: ${error.message}`);
+      throw toOpenGrokError(error, 'set configuration', endpoint);
     }
   }
 
@@ -265,20 +282,18 @@ export class OpenGrokApiClient {
    * @param field 配置字段名称
    */
   async getConfigurationField(field: string): Promise<any> {
-    try {
-      const response = await this.client.get(`/configuration/${field}`);
+    const endpoint = `/configuration/${encodeURIComponent(field)}`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get configuration field: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get configuration field');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get configuration field: ${error.message}`);
+      throw toOpenGrokError(error, 'get configuration field', endpoint);
     }
   }
 
@@ -289,31 +304,29 @@ export class OpenGrokApiClient {
    * @param reindex 是否重新索引
    */
   async setConfigurationField(field: string, value: string, reindex?: boolean): Promise<void> {
+    const endpoint = `/configuration/${encodeURIComponent(field)}`;
+
     try {
       const params: any = {};
       if (reindex !== undefined) {
         params.reindex = reindex;
       }
 
-      const response = await this.client.put(`/configuration/${field}`, value, {
+      const response = await this.client.put(endpoint, value, {
         params,
         headers: {
           'Content-Type': 'application/text'
         }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status === 202) {
         // 异步操作，需要检查状态
-        console.log('Configuration field update started. Check status with status endpoint.');
+        console.error('Configuration field update started. Check status with status endpoint.');
       } else if (response.status !== 204) {
-        throw new Error(`Failed to set configuration field: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'set configuration field');
       }
     } catch (error: any) {
-      throw new Error(`Failed to set configuration field: ${error.message}`);
+      throw toOpenGrokError(error, 'set configuration field', endpoint);
     }
   }
 
@@ -322,25 +335,23 @@ export class OpenGrokApiClient {
    * @param path 文件路径，相对于源码根目录
    */
   async getFileContent(path: string): Promise<string> {
+    const endpoint = '/file/content';
+
     try {
-      const response = await this.client.get('/file/content', {
+      const response = await this.client.get(endpoint, {
         params: { path },
         headers: {
           'Accept': 'text/plain'
         }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 200) {
-        throw new Error(`Failed to get file content: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get file content');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get file content: ${error.message}`);
+      throw toOpenGrokError(error, 'get file content', endpoint);
     }
   }
 
@@ -349,22 +360,20 @@ export class OpenGrokApiClient {
    * @param path 文件路径，相对于源码根目录
    */
   async getFileGenre(path: string): Promise<string> {
+    const endpoint = '/file/genre';
+
     try {
-      const response = await this.client.get('/file/genre', {
+      const response = await this.client.get(endpoint, {
         params: { path }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 200) {
-        throw new Error(`Failed to get file genre: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get file genre');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get file genre: ${error.message}`);
+      throw toOpenGrokError(error, 'get file genre', endpoint);
     }
   }
 
@@ -373,22 +382,20 @@ export class OpenGrokApiClient {
    * @param path 文件路径，相对于源码根目录
    */
   async getFileDefinitions(path: string): Promise<FileDefinition[]> {
+    const endpoint = '/file/defs';
+
     try {
-      const response: AxiosResponse<FileDefinition[]> = await this.client.get('/file/defs', {
+      const response: AxiosResponse<FileDefinition[]> = await this.client.get(endpoint, {
         params: { path }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 200) {
-        throw new Error(`Failed to get file definitions: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get file definitions');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get file definitions: ${error.message}`);
+      throw toOpenGrokError(error, 'get file definitions', endpoint);
     }
   }
 
@@ -400,25 +407,23 @@ export class OpenGrokApiClient {
    * @param max 条目数量
    */
   async getHistory(path: string, withFiles?: boolean, start?: number, max?: number): Promise<HistoryResponse> {
+    const endpoint = '/history';
+
     try {
       const params: any = { path };
       if (withFiles !== undefined) params.withFiles = withFiles;
       if (start !== undefined) params.start = start;
       if (max !== undefined) params.max = max;
 
-      const response: AxiosResponse<HistoryResponse> = await this.client.get('/history', { params });
-
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+      const response: AxiosResponse<HistoryResponse> = await this.client.get(endpoint, { params });
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get history: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get history');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get history: ${error.message}`);
+      throw toOpenGrokError(error, 'get history', endpoint);
     }
   }
 
@@ -427,22 +432,20 @@ export class OpenGrokApiClient {
    * @param path 目录路径，相对于源码根目录
    */
   async getDirectoryListing(path: string): Promise<DirectoryEntry[]> {
+    const endpoint = '/list';
+
     try {
-      const response: AxiosResponse<DirectoryEntry[]> = await this.client.get('/list', {
+      const response: AxiosResponse<DirectoryEntry[]> = await this.client.get(endpoint, {
         params: { path }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 200) {
-        throw new Error(`Failed to get directory listing: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get directory listing');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get directory listing: ${error.message}`);
+      throw toOpenGrokError(error, 'get directory listing', endpoint);
     }
   }
 
@@ -450,18 +453,16 @@ export class OpenGrokApiClient {
    * 重新加载包含文件
    */
   async reloadIncludeFiles(): Promise<void> {
-    try {
-      const response = await this.client.put('/system/includes/reload');
+    const endpoint = '/system/includes/reload';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.put(endpoint);
 
       if (response.status !== 204) {
-        throw new Error(`Failed to reload include files: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'reload include files');
       }
     } catch (error: any) {
-      throw new Error(`Failed to reload include files: ${error.message}`);
+      throw toOpenGrokError(error, 'reload include files', endpoint);
     }
   }
 
@@ -469,20 +470,18 @@ export class OpenGrokApiClient {
    * 获取最后索引时间
    */
   async getLastIndexTime(): Promise<string> {
-    try {
-      const response = await this.client.get('/system/indextime');
+    const endpoint = '/system/indextime';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get last index time: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get last index time');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get last index time: ${error.message}`);
+      throw toOpenGrokError(error, 'get last index time', endpoint);
     }
   }
 
@@ -496,18 +495,16 @@ export class OpenGrokApiClient {
     text: string;
     duration: string;
   }): Promise<void> {
-    try {
-      const response = await this.client.post('/messages', message);
+    const endpoint = '/messages';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.post(endpoint, message);
 
       if (response.status !== 201) {
-        throw new Error(`Failed to add message: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'add message');
       }
     } catch (error: any) {
-      throw new Error(`Failed to add message: ${error.message}`);
+      throw toOpenGrokError(error, 'add message', endpoint);
     }
   }
 
@@ -517,20 +514,18 @@ export class OpenGrokApiClient {
    * @param text 消息文本
    */
   async deleteMessages(tag: string, text?: string): Promise<void> {
+    const endpoint = `/messages/${encodeURIComponent(tag)}`;
+
     try {
-      const response = await this.client.delete(`/messages/${tag}`, {
+      const response = await this.client.delete(endpoint, {
         data: text
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 204) {
-        throw new Error(`Failed to delete messages: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'delete messages');
       }
     } catch (error: any) {
-      throw new Error(`Failed to delete messages: ${error.message}`);
+      throw toOpenGrokError(error, 'delete messages', endpoint);
     }
   }
 
@@ -539,22 +534,20 @@ export class OpenGrokApiClient {
    * @param tag 标签
    */
   async getMessages(tag: string): Promise<any[]> {
+    const endpoint = `/messages`;
+
     try {
-      const response = await this.client.get(`/messages`, {
+      const response = await this.client.get(endpoint, {
         params: { tag }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 200) {
-        throw new Error(`Failed to get messages: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get messages');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get messages: ${error.message}`);
+      throw toOpenGrokError(error, 'get messages', endpoint);
     }
   }
 
@@ -562,16 +555,18 @@ export class OpenGrokApiClient {
    * 获取Prometheus格式的监控指标
    */
   async getMetrics(): Promise<string> {
+    const endpoint = '/metrics/prometheus';
+
     try {
-      const response = await this.client.get('/metrics/prometheus');
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get metrics: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get metrics');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get metrics: ${error.message}`);
+      throw toOpenGrokError(error, 'get metrics', endpoint);
     }
   }
 
@@ -580,18 +575,16 @@ export class OpenGrokApiClient {
    * @param pathDescriptions 路径描述对象数组
    */
   async updatePathDescriptions(pathDescriptions: { path: string; description: string }[]): Promise<void> {
-    try {
-      const response = await this.client.post('/system/pathdesc', pathDescriptions);
+    const endpoint = '/system/pathdesc';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.post(endpoint, pathDescriptions);
 
       if (response.status !== 204) {
-        throw new Error(`Failed to update path descriptions: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'update path descriptions');
       }
     } catch (error: any) {
-      throw new Error(`Failed to update path descriptions: ${error.message}`);
+      throw toOpenGrokError(error, 'update path descriptions', endpoint);
     }
   }
 
@@ -599,16 +592,18 @@ export class OpenGrokApiClient {
    * 获取Web应用版本
    */
   async getVersion(): Promise<string> {
+    const endpoint = '/system/version';
+
     try {
-      const response = await this.client.get('/system/version');
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get version: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get version');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get version: ${error.message}`);
+      throw toOpenGrokError(error, 'get version', endpoint);
     }
   }
 
@@ -629,20 +624,18 @@ export class OpenGrokApiClient {
    * 获取所有组
    */
   async getGroups(): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get('/groups');
+    const endpoint = '/groups';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get groups: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get groups');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get groups: ${error.message}`);
+      throw toOpenGrokError(error, 'get groups', endpoint);
     }
   }
 
@@ -651,20 +644,18 @@ export class OpenGrokApiClient {
    * @param group 组名
    */
   async getGroupAllProjects(group: string): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get(`/groups/${group}/allprojects`);
+    const endpoint = `/groups/${encodeURIComponent(group)}/allprojects`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get group projects: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get group projects');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get group projects: ${error.message}`);
+      throw toOpenGrokError(error, 'get group projects', endpoint);
     }
   }
 
@@ -673,20 +664,18 @@ export class OpenGrokApiClient {
    * @param group 组名
    */
   async getGroupPattern(group: string): Promise<string> {
-    try {
-      const response = await this.client.get(`/groups/${group}/pattern`);
+    const endpoint = `/groups/${encodeURIComponent(group)}/pattern`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get group pattern: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get group pattern');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get group pattern: ${error.message}`);
+      throw toOpenGrokError(error, 'get group pattern', endpoint);
     }
   }
 
@@ -696,21 +685,23 @@ export class OpenGrokApiClient {
    * @param projectName 项目名
    */
   async checkGroupMatch(group: string, projectName: string): Promise<boolean> {
+    const endpoint = `/groups/${encodeURIComponent(group)}/match`;
+
     try {
-      const response = await this.client.post(`/groups/${group}/match`, projectName, {
+      const response = await this.client.post(endpoint, projectName, {
         headers: {
           'Content-Type': 'text/plain'
         }
       });
 
       if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
+        throw errorForStatus(response.status, endpoint, 'check group match');
       }
 
       // 200表示匹配，204表示不匹配
       return response.status === 200;
     } catch (error: any) {
-      throw new Error(`Failed to check group match: ${error.message}`);
+      throw toOpenGrokError(error, 'check group match', endpoint);
     }
   }
 
@@ -718,20 +709,18 @@ export class OpenGrokApiClient {
    * 获取所有项目
    */
   async getProjects(): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get('/projects');
+    const endpoint = '/projects';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get projects: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get projects');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get projects: ${error.message}`);
+      throw toOpenGrokError(error, 'get projects', endpoint);
     }
   }
 
@@ -740,22 +729,20 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async addProject(projectName: string): Promise<void> {
+    const endpoint = '/projects';
+
     try {
-      const response = await this.client.post('/projects', projectName, {
+      const response = await this.client.post(endpoint, projectName, {
         headers: {
           'Content-Type': 'text/plain'
         }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status !== 201) {
-        throw new Error(`Failed to add project: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'add project');
       }
     } catch (error: any) {
-      throw new Error(`Failed to add project: ${error.message}`);
+      throw toOpenGrokError(error, 'add project', endpoint);
     }
   }
 
@@ -764,18 +751,16 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async deleteProject(projectName: string): Promise<void> {
-    try {
-      const response = await this.client.delete(`/projects/${projectName}`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.delete(endpoint);
 
       if (response.status !== 204) {
-        throw new Error(`Failed to delete project: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'delete project');
       }
     } catch (error: any) {
-      throw new Error(`Failed to delete project: ${error.message}`);
+      throw toOpenGrokError(error, 'delete project', endpoint);
     }
   }
 
@@ -784,18 +769,16 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async deleteProjectIndexData(projectName: string): Promise<void> {
-    try {
-      const response = await this.client.delete(`/projects/${projectName}/data`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/data`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.delete(endpoint);
 
       if (response.status !== 204) {
-        throw new Error(`Failed to delete project index data: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'delete project index data');
       }
     } catch (error: any) {
-      throw new Error(`Failed to delete project index data: ${error.message}`);
+      throw toOpenGrokError(error, 'delete project index data', endpoint);
     }
   }
 
@@ -804,20 +787,18 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async deleteProjectHistoryCache(projectName: string): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.delete(`/projects/${projectName}/historycache`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/historycache`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.delete(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to delete project history cache: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'delete project history cache');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to delete project history cache: ${error.message}`);
+      throw toOpenGrokError(error, 'delete project history cache', endpoint);
     }
   }
 
@@ -826,20 +807,18 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async deleteProjectAnnotationCache(projectName: string): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.delete(`/projects/${projectName}/annotationcache`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/annotationcache`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.delete(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to delete project annotation cache: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'delete project annotation cache');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to delete project annotation cache: ${error.message}`);
+      throw toOpenGrokError(error, 'delete project annotation cache', endpoint);
     }
   }
 
@@ -848,25 +827,23 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async markProjectAsIndexed(projectName: string): Promise<void> {
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/indexed`;
+
     try {
-      const response = await this.client.put(`/projects/${projectName}/indexed`, '', {
+      const response = await this.client.put(endpoint, '', {
         headers: {
           'Content-Type': 'text/plain'
         }
       });
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
-
       if (response.status === 202) {
         // 异步操作，需要检查状态
-        console.log('Mark project as indexed started. Check status with status endpoint.');
+        console.error('Mark project as indexed started. Check status with status endpoint.');
       } else if (response.status !== 204) {
-        throw new Error(`Failed to mark project as indexed: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'mark project as indexed');
       }
     } catch (error: any) {
-      throw new Error(`Failed to mark project as indexed: ${error.message}`);
+      throw toOpenGrokError(error, 'mark project as indexed', endpoint);
     }
   }
 
@@ -875,20 +852,18 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async getProjectIndexedFiles(projectName: string): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get(`/projects/${projectName}/files`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/files`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get project indexed files: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get project indexed files');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get project indexed files: ${error.message}`);
+      throw toOpenGrokError(error, 'get project indexed files', endpoint);
     }
   }
 
@@ -899,18 +874,16 @@ export class OpenGrokApiClient {
    * @param value 属性值
    */
   async setProjectProperty(projectName: string, propertyName: string, value: string): Promise<void> {
-    try {
-      const response = await this.client.put(`/projects/${projectName}/property/${propertyName}`, value);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/property/${encodeURIComponent(propertyName)}`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.put(endpoint, value);
 
       if (response.status !== 204) {
-        throw new Error(`Failed to set project property: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'set project property');
       }
     } catch (error: any) {
-      throw new Error(`Failed to set project property: ${error.message}`);
+      throw toOpenGrokError(error, 'set project property', endpoint);
     }
   }
 
@@ -920,20 +893,18 @@ export class OpenGrokApiClient {
    * @param propertyName 属性名称
    */
   async getProjectProperty(projectName: string, propertyName: string): Promise<any> {
-    try {
-      const response = await this.client.get(`/projects/${projectName}/property/${propertyName}`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/property/${encodeURIComponent(propertyName)}`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get project property: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get project property');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get project property: ${error.message}`);
+      throw toOpenGrokError(error, 'get project property', endpoint);
     }
   }
 
@@ -942,20 +913,18 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async getProjectRepositories(projectName: string): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get(`/projects/${projectName}/repositories`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/repositories`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get project repositories: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get project repositories');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get project repositories: ${error.message}`);
+      throw toOpenGrokError(error, 'get project repositories', endpoint);
     }
   }
 
@@ -964,20 +933,18 @@ export class OpenGrokApiClient {
    * @param projectName 项目名称
    */
   async getProjectRepositoryTypes(projectName: string): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get(`/projects/${projectName}/repositories/type`);
+    const endpoint = `/projects/${encodeURIComponent(projectName)}/repositories/type`;
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get project repository types: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get project repository types');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get project repository types: ${error.message}`);
+      throw toOpenGrokError(error, 'get project repository types', endpoint);
     }
   }
 
@@ -985,20 +952,18 @@ export class OpenGrokApiClient {
    * 获取已索引项目列表
    */
   async getIndexedProjects(): Promise<string[]> {
-    try {
-      const response: AxiosResponse<string[]> = await this.client.get('/projects/indexed');
+    const endpoint = '/projects/indexed';
 
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+    try {
+      const response: AxiosResponse<string[]> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get indexed projects: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get indexed projects');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get indexed projects: ${error.message}`);
+      throw toOpenGrokError(error, 'get indexed projects', endpoint);
     }
   }
 
@@ -1008,23 +973,21 @@ export class OpenGrokApiClient {
    * @param repository 仓库路径
    */
   async getRepositoryField(field: string, repository?: string): Promise<any> {
+    const endpoint = `/repositories/property/${encodeURIComponent(field)}`;
+
     try {
       const params: any = {};
       if (repository) params.repository = repository;
 
-      const response = await this.client.get(`/repositories/property/${field}`, { params });
-
-      if (response.status === 401 || response.status === 403) {
-        throw new Error(`Authentication failed (${response.status}). Update OPENGROK_COOKIES.`);
-      }
+      const response = await this.client.get(endpoint, { params });
 
       if (response.status !== 200) {
-        throw new Error(`Failed to get repository field: ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get repository field');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Failed to get repository field: ${error.message}`);
+      throw toOpenGrokError(error, 'get repository field', endpoint);
     }
   }
 
@@ -1036,7 +999,7 @@ export class OpenGrokApiClient {
    * @param path 文件路径搜索查询
    * @param hist 历史搜索查询
    * @param type 文件类型过滤
-   * @param projects 项目过滤
+   * @param projects 项目过滤（单个项目或项目列表）
    * @param maxResults 最大结果数
    * @param start 起始索引
    * @param sort 排序方式
@@ -1048,11 +1011,13 @@ export class OpenGrokApiClient {
     path?: string,
     hist?: string,
     type?: string,
-    projects?: string,
+    projects?: string | string[],
     maxResults?: string,
     start?: string,
     sort?: 'relevancy' | 'fullpath' | 'lastmodtime'
   ): Promise<SearchResponse> {
+    const endpoint = '/search';
+
     try {
       const params: any = {};
       if (full !== undefined) params.full = full;
@@ -1066,15 +1031,19 @@ export class OpenGrokApiClient {
       if (start !== undefined) params.start = start;
       if (sort !== undefined) params.sort = sort;
 
-      const response: AxiosResponse<SearchResponse> = await this.client.get('/search', { params });
+      // 多个项目以重复参数传递：projects=a&projects=b
+      const response: AxiosResponse<SearchResponse> = await this.client.get(endpoint, {
+        params,
+        paramsSerializer: { indexes: null },
+      });
 
       if (response.status !== 200) {
-        throw new Error(`Search failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'search');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Search failed: ${error.message}`);
+      throw toOpenGrokError(error, 'search', endpoint);
     }
   }
 
@@ -1101,6 +1070,8 @@ export class OpenGrokApiClient {
     hist?: string,
     type?: string
   ): Promise<SuggesterResponse> {
+    const endpoint = '/suggest';
+
     try {
       const params: any = {};
       if (projects !== undefined) params.projects = projects;
@@ -1113,15 +1084,15 @@ export class OpenGrokApiClient {
       if (hist !== undefined) params.hist = hist;
       if (type !== undefined) params.type = type;
 
-      const response: AxiosResponse<SuggesterResponse> = await this.client.get('/suggest', { params });
+      const response: AxiosResponse<SuggesterResponse> = await this.client.get(endpoint, { params });
 
       if (response.status !== 200) {
-        throw new Error(`Get suggestions failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get suggestions');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Get suggestions failed: ${error.message}`);
+      throw toOpenGrokError(error, 'get suggestions', endpoint);
     }
   }
 
@@ -1129,16 +1100,18 @@ export class OpenGrokApiClient {
    * 获取建议器配置
    */
   async getSuggesterConfig(): Promise<SuggesterConfig> {
+    const endpoint = '/suggest/config';
+
     try {
-      const response: AxiosResponse<SuggesterConfig> = await this.client.get('/suggest/config');
+      const response: AxiosResponse<SuggesterConfig> = await this.client.get(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Get suggester config failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get suggester config');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Get suggester config failed: ${error.message}`);
+      throw toOpenGrokError(error, 'get suggester config', endpoint);
     }
   }
 
@@ -1147,14 +1120,16 @@ export class OpenGrokApiClient {
    * @param queries 查询列表
    */
   async initSuggesterPopularityWithQueries(queries: string[]): Promise<void> {
+    const endpoint = '/suggest/init/queries';
+
     try {
-      const response = await this.client.post('/suggest/init/queries', queries);
+      const response = await this.client.post(endpoint, queries);
 
       if (response.status !== 204) {
-        throw new Error(`Init suggester popularity with queries failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'init suggester popularity with queries');
       }
     } catch (error: any) {
-      throw new Error(`Init suggester popularity with queries failed: ${error.message}`);
+      throw toOpenGrokError(error, 'init suggester popularity with queries', endpoint);
     }
   }
 
@@ -1163,14 +1138,16 @@ export class OpenGrokApiClient {
    * @param data 原始数据
    */
   async initSuggesterPopularityWithRawData(data: { project: string; field: string; token: string; increment: number }[]): Promise<void> {
+    const endpoint = '/suggest/init/raw';
+
     try {
-      const response = await this.client.post('/suggest/init/raw', data);
+      const response = await this.client.post(endpoint, data);
 
       if (response.status !== 204) {
-        throw new Error(`Init suggester popularity with raw data failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'init suggester popularity with raw data');
       }
     } catch (error: any) {
-      throw new Error(`Init suggester popularity with raw data failed: ${error.message}`);
+      throw toOpenGrokError(error, 'init suggester popularity with raw data', endpoint);
     }
   }
 
@@ -1189,6 +1166,8 @@ export class OpenGrokApiClient {
     pageSize?: number,
     all?: boolean
   ): Promise<any[]> {
+    const endpoint = `/suggest/popularity/${encodeURIComponent(project)}`;
+
     try {
       const params: any = {};
       if (field !== undefined) params.field = field;
@@ -1196,15 +1175,15 @@ export class OpenGrokApiClient {
       if (pageSize !== undefined) params.pageSize = pageSize;
       if (all !== undefined) params.all = all;
 
-      const response = await this.client.get(`/suggest/popularity/${project}`, { params });
+      const response = await this.client.get(endpoint, { params });
 
       if (response.status !== 200) {
-        throw new Error(`Get suggester popularity data failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'get suggester popularity data');
       }
 
       return response.data;
     } catch (error: any) {
-      throw new Error(`Get suggester popularity data failed: ${error.message}`);
+      throw toOpenGrokError(error, 'get suggester popularity data', endpoint);
     }
   }
 
@@ -1212,14 +1191,16 @@ export class OpenGrokApiClient {
    * 重建所有项目的建议器数据
    */
   async rebuildSuggesterData(): Promise<void> {
+    const endpoint = '/suggest/rebuild';
+
     try {
-      const response = await this.client.put('/suggest/rebuild');
+      const response = await this.client.put(endpoint);
 
       if (response.status !== 204) {
-        throw new Error(`Rebuild suggester data failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'rebuild suggester data');
       }
     } catch (error: any) {
-      throw new Error(`Rebuild suggester data failed: ${error.message}`);
+      throw toOpenGrokError(error, 'rebuild suggester data', endpoint);
     }
   }
 
@@ -1228,14 +1209,16 @@ export class OpenGrokApiClient {
    * @param project 项目名称
    */
   async rebuildSuggesterDataForProject(project: string): Promise<void> {
+    const endpoint = `/suggest/rebuild/${encodeURIComponent(project)}`;
+
     try {
-      const response = await this.client.put(`/suggest/rebuild/${project}`);
+      const response = await this.client.put(endpoint);
 
       if (response.status !== 204) {
-        throw new Error(`Rebuild suggester data for project failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'rebuild suggester data for project');
       }
     } catch (error: any) {
-      throw new Error(`Rebuild suggester data for project failed: ${error.message}`);
+      throw toOpenGrokError(error, 'rebuild suggester data for project', endpoint);
     }
   }
 
@@ -1244,12 +1227,14 @@ export class OpenGrokApiClient {
    * @param uuid 请求UUID
    */
   async checkRequestStatus(uuid: string): Promise<number> {
+    const endpoint = `/status/${encodeURIComponent(uuid)}`;
+
     try {
-      const response = await this.client.get(`/status/${uuid}`);
+      const response = await this.client.get(endpoint);
 
       return response.status;
     } catch (error: any) {
-      throw new Error(`Check request status failed: ${error.message}`);
+      throw toOpenGrokError(error, 'check request status', endpoint);
     }
   }
 
@@ -1258,14 +1243,16 @@ export class OpenGrokApiClient {
    * @param uuid 请求UUID
    */
   async deleteRequestStatus(uuid: string): Promise<void> {
+    const endpoint = `/status/${encodeURIComponent(uuid)}`;
+
     try {
-      const response = await this.client.delete(`/status/${uuid}`);
+      const response = await this.client.delete(endpoint);
 
       if (response.status !== 200) {
-        throw new Error(`Delete request status failed with status ${response.status}`);
+        throw errorForStatus(response.status, endpoint, 'delete request status');
       }
     } catch (error: any) {
-      throw new Error(`Delete request status failed: ${error.message}`);
+      throw toOpenGrokError(error, 'delete request status', endpoint);
     }
   }
 }
\ No newline at end of file
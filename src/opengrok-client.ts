@@ -1,15 +1,130 @@
 import axios, { AxiosInstance } from 'axios';
 import { CookieJar } from 'tough-cookie';
 import { wrapper } from 'axios-cookiejar-support';
-import { OpenGrokApiClient, SearchResponse, SearchResult as ApiSearchResult } from './opengrok-api-client.js';
+import { OpenGrokApiClient, DirectoryEntry, FileDefinition, SearchResponse, SearchResult as ApiSearchResult } from './opengrok-api-client.js';
+import { sliceLines, splitLines } from './line-utils.js';
+import { validateQueryString } from './query-builder.js';
+import { rankPaths } from './fuzzy.js';
+import { summarizeFiles } from './file-list.js';
+import { CacheOptions, ResponseCache, cacheMethods } from './cache.js';
+import { ResilienceOptions } from './resilience.js';
+import { RequestLimiter } from './request-limiter.js';
+import { AuthenticationError, InvalidQueryError, NotFoundError, toOpenGrokError } from './errors.js';
+import { HighlightRange, cleanSnippet } from './snippet.js';
+import { globMatcher } from './glob.js';
+import { createLimiter } from './concurrency.js';
+import { currentSignal, throwIfCancelled } from './request-context.js';
 
 export interface SearchResult {
   path: string;
   line: number;
+  // Plain text with entities decoded and markup removed
   snippet: string;
+  // Character ranges of snippet that matched the query
+  highlights: HighlightRange[];
+  // Snippet as returned by OpenGrok, including <b> highlighting
+  snippetHtml: string;
   project: string;
 }
 
+export type SearchType = 'full' | 'defs' | 'refs' | 'path' | 'hist';
+
+export type SearchSort = 'relevancy' | 'fullpath' | 'lastmodtime';
+
+/**
+ * OpenGrok search fields; non-empty fields are combined with AND
+ */
+export interface CompositeQuery {
+  full?: string;
+  def?: string;
+  symbol?: string;
+  path?: string;
+  hist?: string;
+  type?: string;
+}
+
+/**
+ * One page of search results together with the totals reported by OpenGrok
+ */
+export interface SearchPage {
+  // Total number of matching documents (files)
+  resultCount: number;
+  // Server-side search time in milliseconds
+  time: number;
+  startDocument: number;
+  endDocument: number;
+  // Number of hits on this page
+  returned: number;
+  // True when more results exist than were returned
+  truncated: boolean;
+  // Document index to pass as start for the next page
+  nextStart?: number;
+  results: SearchResult[];
+}
+
+export interface HitContext {
+  path: string;
+  project: string;
+  startLine: number;
+  endLine: number;
+  // Lines within startLine..endLine that matched the query
+  hitLines: number[];
+  lines: string[];
+  // Why context is missing; lines then hold the hit's snippet only
+  contextError?: string;
+}
+
+export interface DirectoryTreeOptions {
+  // Directory levels to descend below the root (1 = direct children only)
+  maxDepth?: number;
+  // Only files matching one of these globs are kept
+  include?: string[];
+  // Files and directories matching one of these globs are skipped
+  exclude?: string[];
+  // Maximum number of directory listings fetched at once
+  concurrency?: number;
+  // Stop descending once this many entries have been collected
+  maxEntries?: number;
+}
+
+export interface DirectoryTreeNode {
+  path: string;
+  isDirectory: boolean;
+  // For directories: totals over the files in the subtree that passed the filters
+  numLines: number;
+  loc: number;
+  size: number;
+  files?: number;
+  children?: DirectoryTreeNode[];
+  // Set on directories that were not expanded (depth or entry limit)
+  truncated?: boolean;
+  // Set on unexpanded directories when filters are given: their totals are OpenGrok's
+  // for all files, so they are not added to the parent's totals
+  unfiltered?: boolean;
+}
+
+export interface RepositorySummary {
+  path: string;
+  type?: string;
+  branch?: string;
+  currentVersion?: string;
+  remote?: string;
+}
+
+export interface ProjectOverview {
+  project: string;
+  lastIndexTime?: string;
+  repositoryTypes: string[];
+  repositories: RepositorySummary[];
+  // Top-level directory entries with their line counts
+  topLevel: { path: string; isDirectory: boolean; numLines: number; loc: number; size: number }[];
+  totals: { files: number; numLines: number; loc: number };
+  // File counts per extension, largest first (limited to the most common ones)
+  extensions: { [extension: string]: number };
+  // Parts of the overview that could not be fetched
+  warnings?: string[];
+}
+
 export interface FileContent {
   path: string;
   content: string;
@@ -21,8 +136,37 @@ export interface CrossReference {
   file: string;
   line: number;
   type: 'definition' | 'reference';
+  // Only set for definitions whose file definitions could be resolved
+  kind?: string;
+  signature?: string;
+  lineStart?: number;
+  lineEnd?: number;
 }
 
+export interface DefinitionSource {
+  symbol: string;
+  path: string;
+  project: string;
+  kind?: string;
+  signature?: string;
+  lineStart: number;
+  lineEnd: number;
+  source: string;
+}
+
+export interface OpenGrokClientOptions {
+  // Response cache settings; caching is disabled when unset
+  cache?: CacheOptions;
+  // Retry and circuit-breaker settings for the HTTP client
+  resilience?: ResilienceOptions;
+  // Concurrency and rate limits, shared by all clients of the process
+  limiter?: RequestLimiter;
+}
+
+// Files whose definitions are fetched to resolve one symbol, and how many at once
+const MAX_DEFINITION_FILES = 50;
+const DEFINITION_FETCH_CONCURRENCY = 4;
+
 /**
  * Client for interacting with OpenGrok via REST API
  */
@@ -30,84 +174,264 @@ export class OpenGrokClient {
   private apiClient: OpenGrokApiClient;
   private baseUrl: string;
 
-  constructor(baseUrl: string, cookieJar?: CookieJar, username?: string, password?: string) {
+  constructor(baseUrl: string, cookieJar?: CookieJar, username?: string, password?: string, options: OpenGrokClientOptions = {}) {
     this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
     
     // 创建API客户端实例
-    this.apiClient = new OpenGrokApiClient(this.baseUrl, cookieJar, username, password);
+    this.apiClient = new OpenGrokApiClient(this.baseUrl, cookieJar, username, password, {
+      resilience: options.resilience,
+      limiter: options.limiter,
+    });
+
+    if (options.cache) {
+      // Cache read-only lookups; the whole cache is dropped when the index changes
+      const apiClient = this.apiClient;
+      const getLastIndexTime = apiClient.getLastIndexTime.bind(apiClient);
+      cacheMethods(apiClient, [
+        'search',
+        'getFileContent',
+        'getFileDefinitions',
+        'getFileGenre',
+        'getDirectoryListing',
+        'getHistory',
+        'getAnnotation',
+        'getProjectIndexedFiles',
+      ], new ResponseCache({ scope: this.baseUrl, ...options.cache }), getLastIndexTime);
+    }
   }
 
   /**
    * Search for code across projects (using REST API)
    * @param query - The search query string
-   * @param project - Project to search in (required)
+   * @param project - Project or list of projects to search in (required)
    * @param searchType - Type of search: 'full' (text), 'defs' (definitions), 'refs' (symbol references), 'path' (file path), 'hist' (history)
    * @param language - Optional language filter (e.g., 'java', 'cxx', 'python', 'js')
    * @param maxResults - Maximum number of results to return
    */
   async search(
     query: string,
-    project: string,
-    searchType: 'full' | 'defs' | 'refs' | 'path' | 'hist' = 'full',
+    project: string | string[],
+    searchType: SearchType = 'full',
     language?: string,
     maxResults: number = 50
   ): Promise<SearchResult[]> {
-    if (!project) {
-      throw new Error('Project is required for OpenGrok search. Please specify a project.');
+    return (await this.searchPage(query, project, searchType, language, maxResults)).results;
+  }
+
+  /**
+   * Search for code and return one page of results with totals
+   * @param query - The search query string
+   * @param project - Project or list of projects to search in (required)
+   * @param searchType - Type of search (see search())
+   * @param language - Optional language filter
+   * @param maxResults - Maximum number of hits on this page
+   * @param start - Index of the first matching document (file) to return
+   * @param sort - Result order: 'relevancy' (default), 'fullpath' or 'lastmodtime'
+   */
+  async searchPage(
+    query: string,
+    project: string | string[],
+    searchType: SearchType = 'full',
+    language?: string,
+    maxResults: number = 50,
+    start: number = 0,
+    sort?: SearchSort
+  ): Promise<SearchPage> {
+    // Set only the active search field
+    const fields: CompositeQuery = {};
+    switch (searchType) {
+      case 'defs':
+        fields.def = query;
+        break;
+      case 'refs':
+        fields.symbol = query;
+        break;
+      case 'path':
+        fields.path = query;
+        break;
+      case 'hist':
+        fields.hist = query;
+        break;
+      case 'full':
+      default:
+        fields.full = query;
+        break;
     }
 
-    try {
-      // Build search parameters based on searchType
-      let full: string | undefined;
-      let def: string | undefined;
-      let symbol: string | undefined;
-      let path: string | undefined;
-      let hist: string | undefined;
-      let type: string | undefined;
+    // Add language filter if specified
+    if (language) {
+      fields.type = language;
+    }
 
-      // Set only the active search parameter
-      switch (searchType) {
-        case 'defs':
-          def = query;
-          break;
-        case 'refs':
-          symbol = query;
-          break;
-        case 'path':
-          path = query;
-          break;
-        case 'hist':
-          hist = query;
-          break;
-        case 'full':
-        default:
-          full = query;
-          break;
-      }
+    return this.compositeSearch(fields, project, maxResults, start, sort);
+  }
 
-      // Add language filter if specified
-      if (language) {
-        type = language;
+  /**
+   * Search with any combination of OpenGrok query fields, e.g. a definition
+   * search restricted to a path pattern and a file type
+   * @param fields - Query fields passed straight to the search API
+   * @param project - Project or list of projects to search in (required)
+   * @param maxResults - Maximum number of hits on this page
+   * @param start - Index of the first matching document to return
+   * @param sort - Result order
+   * @param validate - Check the query syntax first (off for queries from the query builder)
+   */
+  async compositeSearch(
+    fields: CompositeQuery,
+    project: string | string[],
+    maxResults: number = 50,
+    start: number = 0,
+    sort?: SearchSort,
+    validate: boolean = true
+  ): Promise<SearchPage> {
+    const projects = (Array.isArray(project) ? project : [project]).filter((name) => name && name.trim() !== '');
+    if (projects.length === 0) {
+      throw new InvalidQueryError('Project is required for OpenGrok search. Please specify a project.', {
+        hint: 'Pass a project (or several). Use opengrok_list_projects to see available projects.',
+      });
+    }
+
+    const { full, def, symbol, path, hist, type } = fields;
+    if (![full, def, symbol, path, hist].some((value) => value !== undefined && value.trim() !== '')) {
+      throw new InvalidQueryError('At least one of full, def, symbol, path or hist is required for OpenGrok search.');
+    }
+
+    // Reject malformed queries before they reach the server (path queries use their own syntax)
+    for (const [field, value] of Object.entries({ full, def, symbol, hist })) {
+      if (validate && value) {
+        validateQueryString(value, field);
       }
+    }
 
+    try {
       // Use projects parameter for project filtering
-      const projects = project;
-
       const response = await this.apiClient.search(
-        full, def, symbol, path, hist, type, projects, maxResults.toString()
+        full, def, symbol, path, hist, type, projects, maxResults.toString(),
+        start > 0 ? start.toString() : undefined, sort
       );
 
       // Transform API response to our expected format
-      return this.transformSearchResults(response, project).slice(0, maxResults);
+      return this.paginateSearchResults(response, projects, maxResults, start);
     } catch (error: any) {
-      throw new Error(`OpenGrok search failed: ${error.message}`);
+      throw toOpenGrokError(error, 'search');
+    }
+  }
+
+  /**
+   * Search all projects of an OpenGrok group with a single multi-project search.
+   * Each hit is attributed to its own project.
+   * @param query - The search query string
+   * @param group - Group name
+   * @param searchType - Type of search (see search())
+   * @param language - Optional language filter
+   * @param maxResults - Maximum number of hits on this page
+   * @param start - Index of the first matching document to return
+   * @param sort - Result order
+   */
+  async searchGroup(
+    query: string,
+    group: string,
+    searchType: SearchType = 'full',
+    language?: string,
+    maxResults: number = 50,
+    start: number = 0,
+    sort?: SearchSort
+  ): Promise<SearchPage> {
+    const projects = await this.getGroupProjects(group);
+    if (projects.length === 0) {
+      throw new NotFoundError(`Group "${group}" does not contain any projects.`, {
+        hint: 'Use opengrok_list_groups to see the available groups and opengrok_get_group to see their projects.',
+      });
     }
+
+    return this.searchPage(query, projects, searchType, language, maxResults, start, sort);
+  }
+
+  /**
+   * Search every indexed project
+   * @param query - The search query string
+   * @param searchType - Type of search (see search())
+   * @param language - Optional language filter
+   * @param maxResults - Maximum number of hits on this page
+   * @param start - Index of the first matching document to return
+   * @param sort - Result order
+   */
+  async searchAllProjects(
+    query: string,
+    searchType: SearchType = 'full',
+    language?: string,
+    maxResults: number = 50,
+    start: number = 0,
+    sort?: SearchSort
+  ): Promise<SearchPage> {
+    const projects = await this.getIndexedProjects();
+    if (projects.length === 0) {
+      throw new Error('No indexed projects found in OpenGrok.');
+    }
+
+    return this.searchPage(query, projects, searchType, language, maxResults, start, sort);
+  }
+
+  /**
+   * Cut a search response down to maxResults hits without splitting documents,
+   * so that the next page can start at the first document that was left out.
+   */
+  private paginateSearchResults(response: SearchResponse, projects: string[], maxResults: number, start: number): SearchPage {
+    const hitsByDocument = new Map<string, SearchResult[]>();
+    for (const hit of this.transformSearchResults(response, projects)) {
+      hitsByDocument.set(hit.path, [...(hitsByDocument.get(hit.path) || []), hit]);
+    }
+
+    const results: SearchResult[] = [];
+    // Every document up to the break counts towards the next start, including those without usable hits
+    let documentsReturned = 0;
+    let hitsDropped = false;
+    for (const document of Object.keys(response.results)) {
+      const documentHits = hitsByDocument.get(document) || [];
+      const room = maxResults - results.length;
+      if (documentHits.length > 0 && (room <= 0 || (documentHits.length > room && results.length > 0))) {
+        // Leave the whole document for the next page
+        break;
+      }
+      if (documentHits.length > room) {
+        // A single document with more hits than fit on a page
+        hitsDropped = true;
+      }
+      results.push(...documentHits.slice(0, room));
+      documentsReturned++;
+    }
+
+    const nextStart = start + documentsReturned;
+    const hasMore = nextStart < response.resultCount;
+
+    return {
+      resultCount: response.resultCount,
+      time: response.time,
+      startDocument: response.startDocument,
+      endDocument: response.endDocument,
+      returned: results.length,
+      truncated: hasMore || hitsDropped,
+      nextStart: hasMore ? nextStart : undefined,
+      results,
+    };
+  }
+
+  /**
+   * Derive the project of a hit from its path (/project/dir/file).
+   * Falls back to the only searched project when the path has no usable prefix.
+   */
+  private projectFromPath(filePath: string, projects: string[]): string {
+    const firstSegment = filePath.split('/').find((segment) => segment !== '');
+    if (firstSegment && (projects.length !== 1 || projects.includes(firstSegment))) {
+      return firstSegment;
+    }
+    return projects.length === 1 ? projects[0] : 'unknown';
   }
 
   /**
    * Transform API search results to our expected format
    */
-  private transformSearchResults(apiResponse: SearchResponse, project: string): SearchResult[] {
+  private transformSearchResults(apiResponse: SearchResponse, projects: string[]): SearchResult[] {
     const results: SearchResult[] = [];
     
     // apiResponse.results is a map where keys are file paths and values are arrays of hits in those files
@@ -119,13 +443,15 @@ export class OpenGrokClient {
           if (typeof hit === 'object' && hit.lineNumber && hit.line) {
             // Extract line number from the hit
             const lineNumber = hit.lineNumber ? parseInt(hit.lineNumber, 10) : 0;
-            const key = `${filePath}:${lineNumber}`;
-            
+            const { text, highlights } = cleanSnippet(hit.line);
+
             results.push({
               path: filePath,
               line: lineNumber,
-              snippet: hit.line, // The actual code snippet with highlighting
-              project: project || 'unknown',
+              snippet: text,
+              highlights,
+              snippetHtml: hit.line,
+              project: this.projectFromPath(filePath, projects),
             });
           }
         }
@@ -150,41 +476,322 @@ export class OpenGrokClient {
         project: project || '',
       };
     } catch (error: any) {
-      throw new Error(`Failed to get file content: ${error.message}`);
+      throw toOpenGrokError(error, 'get file content');
     }
   }
 
   /**
-   * Get cross-references for a symbol using the search API
+   * Get cross-references for a symbol using the search API.
+   * Combines a definition search with a symbol search; definitions carry the
+   * signature and line span from the file definitions of the defining file
+   * (for the first MAX_DEFINITION_FILES defining files only).
    */
   async getCrossReferences(symbol: string, project?: string): Promise<CrossReference[]> {
     try {
-      // Use search API to find symbol references
-      const response: SearchResponse = await this.apiClient.search(undefined, undefined, symbol, undefined, undefined, undefined, project);
-      
-      // Transform results to cross-reference format
-      const refs: CrossReference[] = [];
-      for (const [filePath, hits] of Object.entries(response.results)) {
-        // Type guard for hits array
-        if (Array.isArray(hits)) {
-          for (const hit of hits) {
-            if (typeof hit === 'object' && hit.lineNumber) {
-              const line = hit.lineNumber ? parseInt(hit.lineNumber, 10) : 0;
-              refs.push({
-                symbol: symbol,
-                file: filePath,
-                line: line,
-                type: 'reference' as const, // For API-based implementation, we'll consider all as references
-              });
-            }
-          }
+      const [definitions, refResponse] = await Promise.all([
+        this.findDefinitions(symbol, project),
+        this.apiClient.search(undefined, undefined, symbol, undefined, undefined, undefined, project),
+      ]);
+
+      const refs: CrossReference[] = definitions.map(({ file, line, definition }) => ({
+        symbol,
+        file,
+        line,
+        type: 'definition' as const,
+        ...(definition ? this.describeDefinition(definition) : {}),
+      }));
+
+      // The symbol search also matches the definition sites; keep those only once
+      const definitionSites = new Set(definitions.map(({ file, line }) => `${file}:${line}`));
+      for (const { file, line } of this.searchHits(refResponse)) {
+        if (!definitionSites.has(`${file}:${line}`)) {
+          refs.push({
+            symbol,
+            file,
+            line,
+            type: 'reference' as const,
+          });
         }
       }
 
       return refs;
     } catch (error: any) {
-      throw new Error(`Failed to get cross-references: ${error.message}`);
+      throw toOpenGrokError(error, 'get cross-references');
+    }
+  }
+
+  /**
+   * Resolve a symbol to its definition(s) and return their source lines
+   * @param symbol Symbol name
+   * @param project Optional project to search in
+   * @param kind Optional definition type filter (e.g. function, class, macro)
+   * @param maxResults Maximum number of definitions to return
+   */
+  async getDefinitions(symbol: string, project?: string, kind?: string, maxResults: number = 10): Promise<DefinitionSource[]> {
+    try {
+      const definitions = await this.findDefinitions(symbol, project, kind, maxResults);
+
+      // Fetch each defining file only once
+      const files = [...new Set(definitions.map(({ file }) => file))];
+      const linesByFile = new Map<string, string[]>();
+      await Promise.all(files.map(async (file) => {
+        linesByFile.set(file, splitLines(await this.apiClient.getFileContent(file)));
+      }));
+
+      return definitions.map(({ file, line, definition }) => {
+        const details = definition ? this.describeDefinition(definition) : { lineStart: line, lineEnd: line };
+        const lineStart = details.lineStart ?? line;
+        const lineEnd = details.lineEnd ?? line;
+
+        return {
+          symbol,
+          path: file,
+          project: this.projectFromPath(file, project ? [project] : []),
+          kind: details.kind,
+          signature: details.signature,
+          lineStart,
+          lineEnd,
+          source: sliceLines(linesByFile.get(file) || [], lineStart, lineEnd).join('\n'),
+        };
+      });
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'get definitions');
+    }
+  }
+
+  /**
+   * Find the innermost definition (function, class, ...) whose line span covers
+   * a line, and return its source
+   * @param path File path relative to source root
+   * @param line Line number inside the file
+   * @returns The enclosing definition, or null when the line is outside every definition
+   */
+  async getEnclosingDefinition(path: string, line: number): Promise<DefinitionSource | null> {
+    try {
+      const definitions = await this.apiClient.getFileDefinitions(path);
+
+      let innermost: FileDefinition | undefined;
+      for (const definition of definitions) {
+        // Definitions without a span (e.g. plain ctags entries) cannot enclose anything
+        if (!(definition.lineStart > 0 && definition.lineEnd >= definition.lineStart)) {
+          continue;
+        }
+        if (line < definition.lineStart || line > definition.lineEnd) {
+          continue;
+        }
+        const span = definition.lineEnd - definition.lineStart;
+        if (!innermost || span < innermost.lineEnd - innermost.lineStart ||
+            (span === innermost.lineEnd - innermost.lineStart && definition.lineStart > innermost.lineStart)) {
+          innermost = definition;
+        }
+      }
+
+      if (!innermost) {
+        return null;
+      }
+
+      const lines = splitLines(await this.apiClient.getFileContent(path));
+      return {
+        symbol: innermost.symbol,
+        path,
+        project: this.projectFromPath(path, []),
+        kind: innermost.type,
+        signature: innermost.signature || undefined,
+        lineStart: innermost.lineStart,
+        lineEnd: innermost.lineEnd,
+        source: sliceLines(lines, innermost.lineStart, innermost.lineEnd).join('\n'),
+      };
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'get enclosing definition');
+    }
+  }
+
+  /**
+   * Expand search hits into blocks of surrounding lines. Hits in the same file
+   * are merged into one block when their context overlaps or touches, and each
+   * file is fetched only once. Hits whose file cannot be read keep their snippet.
+   * @param results Search results to expand
+   * @param contextBefore Number of lines to include before each hit
+   * @param contextAfter Number of lines to include after each hit
+   */
+  async getHitContext(results: SearchResult[], contextBefore: number, contextAfter: number): Promise<HitContext[]> {
+    // Hits per file, in order of first appearance
+    const hitsByFile = new Map<string, SearchResult[]>();
+    for (const result of results) {
+      hitsByFile.set(result.path, [...(hitsByFile.get(result.path) || []), result]);
+    }
+
+    // A file that cannot be read (deleted, binary, no access) only loses its own context
+    const linesByFile = new Map<string, string[]>();
+    const fetchErrors = new Map<string, string>();
+    await Promise.all([...hitsByFile.keys()].map(async (file) => {
+      try {
+        linesByFile.set(file, splitLines(await this.apiClient.getFileContent(file)));
+      } catch (error: any) {
+        fetchErrors.set(file, toOpenGrokError(error, 'get file content').message);
+      }
+    }));
+    throwIfCancelled();
+
+    const blocks: HitContext[] = [];
+    for (const [file, hits] of hitsByFile) {
+      const lines = linesByFile.get(file) || [];
+      let current: HitContext | undefined;
+
+      const seen = new Set<number>();
+      for (const hit of [...hits].sort((a, b) => a.line - b.line)) {
+        if (seen.has(hit.line)) {
+          continue;
+        }
+        seen.add(hit.line);
+
+        const fetchError = fetchErrors.get(file);
+        if (fetchError || hit.line > lines.length) {
+          // Fall back to the snippet; a hit past the end means the file changed since indexing
+          blocks.push({
+            path: file,
+            project: hit.project,
+            startLine: hit.line,
+            endLine: hit.line,
+            hitLines: [hit.line],
+            lines: [hit.snippet],
+            contextError: fetchError || `Line ${hit.line} is past the end of the file (${lines.length} lines); the index may be out of date`,
+          });
+          current = undefined;
+          continue;
+        }
+
+        const startLine = Math.max(1, hit.line - contextBefore);
+        const endLine = Math.min(lines.length, hit.line + contextAfter);
+        if (current && startLine <= current.endLine + 1) {
+          current.endLine = Math.max(current.endLine, endLine);
+          current.hitLines.push(hit.line);
+        } else {
+          current = { path: file, project: hit.project, startLine, endLine, hitLines: [hit.line], lines: [] };
+          blocks.push(current);
+        }
+      }
+    }
+
+    for (const block of blocks) {
+      if (!block.contextError) {
+        block.lines = sliceLines(linesByFile.get(block.path) || [], block.startLine, block.endLine);
+      }
     }
+    return blocks;
+  }
+
+  /**
+   * Find the definitions of a symbol with a def search, and resolve each hit
+   * to its FileDefinition (fetching the definitions of every file only once).
+   * At most MAX_DEFINITION_FILES files are resolved; hits in further files are
+   * returned without a definition.
+   * @param symbol Symbol name
+   * @param project Optional project to search in
+   * @param kind Optional definition type filter (e.g. function, class, macro)
+   * @param maxResults Stop once this many definitions are found
+   */
+  private async findDefinitions(
+    symbol: string,
+    project?: string,
+    kind?: string,
+    maxResults?: number
+  ): Promise<{ file: string; line: number; definition?: FileDefinition }[]> {
+    // Without a kind filter every hit counts, so the search itself can be bounded
+    // (maxresults counts documents, and each document has at least one hit)
+    const bounded = maxResults !== undefined && !kind;
+    const response = await this.apiClient.search(
+      undefined, symbol, undefined, undefined, undefined, undefined, project,
+      bounded ? String(maxResults) : undefined
+    );
+    let hits = this.searchHits(response);
+    if (bounded) {
+      hits = hits.slice(0, maxResults);
+    }
+
+    const hitsByFile = new Map<string, number[]>();
+    for (const hit of hits) {
+      hitsByFile.set(hit.file, [...(hitsByFile.get(hit.file) || []), hit.line]);
+    }
+    const files = [...hitsByFile.keys()];
+
+    const results: { file: string; line: number; definition?: FileDefinition }[] = [];
+    const limit = maxResults ?? Infinity;
+    let resolved = 0;
+
+    // Resolve a few files at a time, so a kind filter can stop as soon as enough matches are found
+    while (resolved < files.length && results.length < limit) {
+      if (resolved >= MAX_DEFINITION_FILES) {
+        if (kind) {
+          // Unresolved hits cannot be checked against the kind
+          break;
+        }
+        for (const file of files.slice(resolved)) {
+          results.push(...hitsByFile.get(file)!.map((line) => ({ file, line })));
+        }
+        break;
+      }
+
+      const batch = files.slice(resolved, Math.min(resolved + DEFINITION_FETCH_CONCURRENCY, MAX_DEFINITION_FILES));
+      resolved += batch.length;
+      const definitionsByFile = new Map<string, FileDefinition[]>();
+      await Promise.all(batch.map(async (file) => {
+        try {
+          definitionsByFile.set(file, await this.apiClient.getFileDefinitions(file));
+        } catch (error: any) {
+          // The hit is still a definition, just without signature and span
+          console.error(`Could not resolve definitions of ${file}: ${error.message}`);
+        }
+      }));
+      // Per-file failures are tolerated above, a cancelled call is not
+      throwIfCancelled();
+
+      for (const file of batch) {
+        const candidates = (definitionsByFile.get(file) || []).filter((def) => def.symbol === symbol);
+        for (const line of hitsByFile.get(file)!) {
+          const definition = candidates.find((def) => def.line === line)
+            || candidates.find((def) => def.lineStart <= line && line <= def.lineEnd);
+
+          if (kind && (!definition || definition.type.toLowerCase() !== kind.toLowerCase())) {
+            continue;
+          }
+          results.push({ file, line, definition });
+        }
+      }
+    }
+
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Signature, kind and line span of a file definition
+   */
+  private describeDefinition(definition: FileDefinition): Pick<CrossReference, 'kind' | 'signature' | 'lineStart' | 'lineEnd'> {
+    const hasSpan = definition.lineStart > 0 && definition.lineEnd >= definition.lineStart;
+    return {
+      kind: definition.type,
+      signature: definition.signature || undefined,
+      lineStart: hasSpan ? definition.lineStart : definition.line,
+      lineEnd: hasSpan ? definition.lineEnd : definition.line,
+    };
+  }
+
+  /**
+   * Flatten a search response into (file, line) pairs
+   */
+  private searchHits(response: SearchResponse): { file: string; line: number }[] {
+    const hits: { file: string; line: number }[] = [];
+    for (const [filePath, fileHits] of Object.entries(response.results)) {
+      // Type guard for hits array
+      if (Array.isArray(fileHits)) {
+        for (const hit of fileHits) {
+          if (typeof hit === 'object' && hit.lineNumber) {
+            hits.push({ file: filePath, line: parseInt(hit.lineNumber, 10) || 0 });
+          }
+        }
+      }
+    }
+    return hits;
   }
 
   /**
@@ -194,12 +801,60 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getProjects();
     } catch (error: any) {
-      throw new Error(`Failed to list projects: ${error.message}`);
+      throw toOpenGrokError(error, 'list projects');
     }
   }
 
   // 以下是基于OpenGrok REST API的额外功能方法
 
+  /**
+   * List project groups
+   */
+  async listGroups(): Promise<string[]> {
+    try {
+      return await this.apiClient.getGroups();
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'list groups');
+    }
+  }
+
+  /**
+   * Get all projects of a group, including those of its subgroups
+   * @param group Group name
+   */
+  async getGroupProjects(group: string): Promise<string[]> {
+    try {
+      return await this.apiClient.getGroupAllProjects(group);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'get group projects');
+    }
+  }
+
+  /**
+   * Get the project name pattern of a group
+   * @param group Group name
+   */
+  async getGroupPattern(group: string): Promise<string> {
+    try {
+      return await this.apiClient.getGroupPattern(group);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'get group pattern');
+    }
+  }
+
+  /**
+   * Check whether a project name matches the pattern of a group
+   * @param group Group name
+   * @param project Project name
+   */
+  async checkGroupMatch(group: string, project: string): Promise<boolean> {
+    try {
+      return await this.apiClient.checkGroupMatch(group, project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'check group match');
+    }
+  }
+
   /**
    * Get annotation for a file
    * @param path File path relative to source root
@@ -208,7 +863,7 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getAnnotation(path);
     } catch (error: any) {
-      throw new Error(`Failed to get annotation: ${error.message}`);
+      throw toOpenGrokError(error, 'get annotation');
     }
   }
 
@@ -220,7 +875,95 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getDirectoryListing(path);
     } catch (error: any) {
-      throw new Error(`Failed to get directory listing: ${error.message}`);
+      throw toOpenGrokError(error, 'get directory listing');
+    }
+  }
+
+  /**
+   * Walk a directory recursively and aggregate line counts and sizes per subtree
+   * @param path Root directory relative to source root
+   * @param options Depth limit, glob filters and request concurrency
+   */
+  async getDirectoryTree(path: string, options: DirectoryTreeOptions = {}): Promise<DirectoryTreeNode> {
+    const { maxDepth = 3, include = [], exclude = [], concurrency = 4, maxEntries = 2000 } = options;
+    const root = path.endsWith('/') ? path : `${path}/`;
+    const isIncluded = include.length > 0 ? globMatcher(include) : () => true;
+    const isExcluded = exclude.length > 0 ? globMatcher(exclude) : () => false;
+    const limit = createLimiter(concurrency);
+    const filtered = include.length > 0 || exclude.length > 0;
+    let collected = 0;
+
+    // Globs are matched against the path relative to the root
+    const relative = (entryPath: string) => entryPath.startsWith(root) ? entryPath.slice(root.length) : entryPath;
+    const count = (value: number | null) => (value !== null && value > 0 ? value : 0);
+
+    const walk = async (dirPath: string, depth: number): Promise<DirectoryTreeNode> => {
+      // Directories still queued behind the limiter are skipped once the call is cancelled
+      throwIfCancelled();
+      const node: DirectoryTreeNode = { path: dirPath, isDirectory: true, numLines: 0, loc: 0, size: 0, files: 0, children: [] };
+      const entries: DirectoryEntry[] = await limit(() => this.apiClient.getDirectoryListing(dirPath), currentSignal());
+
+      const children = await Promise.all(entries.map(async (entry): Promise<DirectoryTreeNode | undefined> => {
+        const entryRelative = relative(entry.path);
+        if (isExcluded(entryRelative)) {
+          return undefined;
+        }
+
+        if (!entry.isDirectory) {
+          if (!isIncluded(entryRelative)) {
+            return undefined;
+          }
+          collected++;
+          return {
+            path: entry.path,
+            isDirectory: false,
+            numLines: count(entry.numLines),
+            loc: count(entry.loc),
+            size: count(entry.size),
+          };
+        }
+
+        collected++;
+        const childPath = entry.path.endsWith('/') ? entry.path : `${entry.path}/`;
+        if (depth >= maxDepth || collected >= maxEntries) {
+          // Not expanded: fall back to the totals OpenGrok reports for the directory
+          return {
+            path: childPath,
+            isDirectory: true,
+            numLines: count(entry.numLines),
+            loc: count(entry.loc),
+            size: count(entry.size),
+            truncated: true,
+            ...(filtered ? { unfiltered: true } : {}),
+          };
+        }
+
+        const child = await walk(childPath, depth + 1);
+        // Drop directories left empty by an include filter
+        return include.length > 0 && child.files === 0 && !child.children?.some((c) => c.truncated) ? undefined : child;
+      }));
+
+      for (const child of children) {
+        if (!child) {
+          continue;
+        }
+        node.children!.push(child);
+        if (child.unfiltered) {
+          continue;
+        }
+        node.numLines += child.numLines;
+        node.loc += child.loc;
+        node.size += child.size;
+        node.files! += child.isDirectory ? child.files || 0 : 1;
+      }
+      node.children!.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.path.localeCompare(b.path));
+      return node;
+    };
+
+    try {
+      return await walk(root, 1);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'get directory tree');
     }
   }
 
@@ -235,7 +978,7 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getHistory(path, withFiles, start, max);
     } catch (error: any) {
-      throw new Error(`Failed to get history: ${error.message}`);
+      throw toOpenGrokError(error, 'get history');
     }
   }
 
@@ -243,11 +986,11 @@ export class OpenGrokClient {
    * Get file definitions
    * @param path File path relative to source root
    */
-  async getFileDefinitions(path: string): Promise<any[]> {
+  async getFileDefinitions(path: string): Promise<FileDefinition[]> {
     try {
       return await this.apiClient.getFileDefinitions(path);
     } catch (error: any) {
-      throw new Error(`Failed to get file definitions: ${error.message}`);
+      throw toOpenGrokError(error, 'get file definitions');
     }
   }
 
@@ -259,7 +1002,7 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getFileGenre(path);
     } catch (error: any) {
-      throw new Error(`Failed to get file genre: ${error.message}`);
+      throw toOpenGrokError(error, 'get file genre');
     }
   }
 
@@ -282,7 +1025,7 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getIndexedProjects();
     } catch (error: any) {
-      throw new Error(`Failed to get indexed projects: ${error.message}`);
+      throw toOpenGrokError(error, 'get indexed projects');
     }
   }
 
@@ -294,7 +1037,7 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getProjectRepositories(project);
     } catch (error: any) {
-      throw new Error(`Failed to get project repositories: ${error.message}`);
+      throw toOpenGrokError(error, 'get project repositories');
     }
   }
 
@@ -306,10 +1049,106 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getProjectRepositoryTypes(project);
     } catch (error: any) {
-      throw new Error(`Failed to get project repository types: ${error.message}`);
+      throw toOpenGrokError(error, 'get project repository types');
     }
   }
 
+  /**
+   * Get a property of a repository (e.g. branch, currentVersion, remote, type)
+   * @param field Repository field name
+   * @param repository Repository path (e.g. /project/repo)
+   */
+  async getRepositoryField(field: string, repository?: string): Promise<any> {
+    try {
+      return await this.apiClient.getRepositoryField(field, repository);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'get repository field');
+    }
+  }
+
+  /**
+   * Summarise a project: repositories with branch/version/remote, top-level
+   * layout with line counts, extension breakdown and last index time.
+   * Parts that cannot be fetched are reported in warnings instead of failing.
+   * @param project Project name
+   * @param concurrency Maximum number of repository field requests at once
+   */
+  async getProjectOverview(project: string, concurrency: number = 4): Promise<ProjectOverview> {
+    const warnings: string[] = [];
+    const settled = <T>(result: PromiseSettledResult<T>, what: string): T | undefined => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      warnings.push(`${what}: ${result.reason?.message || result.reason}`);
+      return undefined;
+    };
+
+    const [repositories, repositoryTypes, listing, files, lastIndexTime] = await Promise.allSettled([
+      this.apiClient.getProjectRepositories(project),
+      this.apiClient.getProjectRepositoryTypes(project),
+      this.apiClient.getDirectoryListing(`/${project}/`),
+      this.apiClient.getProjectIndexedFiles(project),
+      this.apiClient.getLastIndexTime(),
+    ]);
+    throwIfCancelled();
+
+    // Expired credentials or an unknown project are not partial failures: report them as errors
+    const failures = [repositories, repositoryTypes, listing, files, lastIndexTime]
+      .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+      .map((result) => result.reason);
+    const fatal = failures.find((reason) => reason instanceof AuthenticationError || reason instanceof NotFoundError);
+    if (fatal || failures.length === 5) {
+      throw toOpenGrokError(fatal ?? failures[0], 'get project overview');
+    }
+
+    const limit = createLimiter(concurrency);
+    const repositorySummaries = await Promise.all((settled(repositories, 'repositories') || []).map(async (path) => {
+      const summary: RepositorySummary = { path };
+      for (const field of ['type', 'branch', 'currentVersion', 'remote'] as const) {
+        throwIfCancelled();
+        try {
+          const value = await limit(() => this.apiClient.getRepositoryField(field, path), currentSignal());
+          if (value !== null && value !== undefined && value !== '') {
+            summary[field] = String(value);
+          }
+        } catch (error: any) {
+          if (error instanceof AuthenticationError) {
+            throw error;
+          }
+          warnings.push(`${field} of ${path}: ${error.message}`);
+        }
+      }
+      return summary;
+    }));
+
+    const count = (value: number | null) => (value !== null && value > 0 ? value : 0);
+    const topLevel = (settled(listing, 'top-level listing') || []).map((entry) => ({
+      path: entry.path,
+      isDirectory: entry.isDirectory,
+      numLines: count(entry.numLines),
+      loc: count(entry.loc),
+      size: count(entry.size),
+    }));
+
+    const indexedFiles = settled(files, 'indexed files') || [];
+    const { byExtension } = summarizeFiles(indexedFiles, project);
+
+    return {
+      project,
+      lastIndexTime: settled(lastIndexTime, 'last index time'),
+      repositoryTypes: settled(repositoryTypes, 'repository types') || [],
+      repositories: repositorySummaries,
+      topLevel,
+      totals: {
+        files: indexedFiles.length,
+        numLines: topLevel.reduce((sum, entry) => sum + entry.numLines, 0),
+        loc: topLevel.reduce((sum, entry) => sum + entry.loc, 0),
+      },
+      extensions: Object.fromEntries(Object.entries(byExtension).slice(0, 20)),
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
   /**
    * Get project indexed files
    * @param project Project name
@@ -318,10 +1157,41 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getProjectIndexedFiles(project);
     } catch (error: any) {
-      throw new Error(`Failed to get project indexed files: ${error.message}`);
+      throw toOpenGrokError(error, 'get project indexed files');
     }
   }
 
+  /**
+   * Find files by a partial or half-remembered name (e.g. "UsrAuthCtrl"),
+   * ranking the project's indexed files and path search hits by fuzzy score
+   * @param query Partial file name or path
+   * @param project Project to search in
+   * @param maxResults Maximum number of matches to return
+   */
+  async findFiles(query: string, project: string, maxResults: number = 20): Promise<{ path: string; score: number }[]> {
+    // A path search catches files the indexed list may not report yet
+    const words = query.split(/[^A-Za-z0-9_]+/).filter((word) => word !== '');
+    const [indexed, pathHits] = await Promise.allSettled([
+      this.apiClient.getProjectIndexedFiles(project),
+      words.length > 0
+        ? this.apiClient.search(undefined, undefined, undefined, words.map((word) => `${word}*`).join(' '), undefined, undefined, project, '100')
+        : Promise.resolve(undefined),
+    ]);
+
+    if (indexed.status === 'rejected' && pathHits.status === 'rejected') {
+      throw toOpenGrokError(indexed.reason, 'find files');
+    }
+    throwIfCancelled();
+
+    const candidates = new Set<string>(indexed.status === 'fulfilled' ? indexed.value : []);
+    if (pathHits.status === 'fulfilled' && pathHits.value) {
+      for (const file of Object.keys(pathHits.value.results)) {
+        candidates.add(file);
+      }
+    }
+    return rankPaths(query, candidates, maxResults);
+  }
+
   /**
    * Get suggestions for code completion
    * @param query Search query
@@ -334,7 +1204,7 @@ export class OpenGrokClient {
       const response = await this.apiClient.getSuggestions(projects, field, undefined, query, query, query, query, query, undefined);
       return response.suggestions;
     } catch (error: any) {
-      throw new Error(`Failed to get suggestions: ${error.message}`);
+      throw toOpenGrokError(error, 'get suggestions');
     }
   }
 
@@ -345,7 +1215,7 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getLastIndexTime();
     } catch (error: any) {
-      throw new Error(`Failed to get last index time: ${error.message}`);
+      throw toOpenGrokError(error, 'get last index time');
     }
   }
 
@@ -356,7 +1226,123 @@ export class OpenGrokClient {
     try {
       return await this.apiClient.getVersion();
     } catch (error: any) {
-      throw new Error(`Failed to get version: ${error.message}`);
+      throw toOpenGrokError(error, 'get version');
+    }
+  }
+
+  // Administrative operations (only exposed when admin tools are enabled)
+
+  /**
+   * Add a project
+   * @param project Project name
+   */
+  async addProject(project: string): Promise<void> {
+    try {
+      await this.apiClient.addProject(project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'add project');
+    }
+  }
+
+  /**
+   * Delete a project and its index data
+   * @param project Project name
+   */
+  async deleteProject(project: string): Promise<void> {
+    try {
+      await this.apiClient.deleteProject(project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'delete project');
+    }
+  }
+
+  /**
+   * Delete the index data of a project
+   * @param project Project name
+   */
+  async deleteProjectIndexData(project: string): Promise<void> {
+    try {
+      await this.apiClient.deleteProjectIndexData(project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'delete project index data');
+    }
+  }
+
+  /**
+   * Delete the history cache of a project
+   * @param project Project name
+   * @returns Repositories whose history cache was deleted
+   */
+  async deleteProjectHistoryCache(project: string): Promise<string[]> {
+    try {
+      return await this.apiClient.deleteProjectHistoryCache(project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'delete project history cache');
+    }
+  }
+
+  /**
+   * Delete the annotation cache of a project
+   * @param project Project name
+   * @returns Repositories whose annotation cache was deleted
+   */
+  async deleteProjectAnnotationCache(project: string): Promise<string[]> {
+    try {
+      return await this.apiClient.deleteProjectAnnotationCache(project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'delete project annotation cache');
+    }
+  }
+
+  /**
+   * Mark a project as indexed
+   * @param project Project name
+   */
+  async markProjectAsIndexed(project: string): Promise<void> {
+    try {
+      await this.apiClient.markProjectAsIndexed(project);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'mark project as indexed');
     }
   }
+
+  /**
+   * Set a project property
+   * @param project Project name
+   * @param property Property name
+   * @param value Property value
+   */
+  async setProjectProperty(project: string, property: string, value: string): Promise<void> {
+    try {
+      await this.apiClient.setProjectProperty(project, property, value);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'set project property');
+    }
+  }
+
+  /**
+   * Set a configuration field
+   * @param field Configuration field name
+   * @param value Field value
+   * @param reindex Whether to trigger reindexing
+   */
+  async setConfigurationField(field: string, value: string, reindex?: boolean): Promise<void> {
+    try {
+      await this.apiClient.setConfigurationField(field, value, reindex);
+    } catch (error: any) {
+      throw toOpenGrokError(error, 'set configuration field');
+    }
+  }
+}
+
+/**
+ * Group search results (or anything else tagged with a project) by project,
+ * keeping the original order within each project
+ */
+export function groupByProject<T extends { project: string }>(items: T[]): { [project: string]: T[] } {
+  const grouped: { [project: string]: T[] } = {};
+  for (const item of items) {
+    (grouped[item.project] ||= []).push(item);
+  }
+  return grouped;
 }
@@ -0,0 +1,117 @@
+/**
+ * Build a nested outline of a file from its flat list of definitions
+ */
+
+import { FileDefinition } from './opengrok-api-client.js';
+
+export interface OutlineNode {
+  symbol: string;
+  kind: string;
+  signature?: string;
+  lineStart: number;
+  lineEnd: number;
+  children: OutlineNode[];
+}
+
+function toNode(definition: FileDefinition): OutlineNode {
+  const hasSpan = definition.lineStart > 0 && definition.lineEnd >= definition.lineStart;
+  return {
+    symbol: definition.symbol,
+    kind: definition.type,
+    signature: definition.signature || undefined,
+    lineStart: hasSpan ? definition.lineStart : definition.line,
+    lineEnd: hasSpan ? definition.lineEnd : definition.line,
+    children: [],
+  };
+}
+
+function contains(outer: OutlineNode, inner: OutlineNode): boolean {
+  return outer.lineStart <= inner.lineStart && inner.lineEnd <= outer.lineEnd;
+}
+
+/**
+ * Nest definitions by line containment (class → method → local), then attach
+ * top-level definitions that declare a namespace (e.g. C++ methods defined
+ * outside their class) to that namespace
+ * @param definitions Definitions as returned by /file/defs
+ */
+export function buildOutline(definitions: FileDefinition[]): OutlineNode[] {
+  // The same definition is sometimes reported more than once
+  const seen = new Set<string>();
+  const entries: { node: OutlineNode; namespace: string | null }[] = [];
+  for (const definition of definitions) {
+    const key = `${definition.type}:${definition.symbol}:${definition.line}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      entries.push({ node: toNode(definition), namespace: definition.namespace || null });
+    }
+  }
+
+  // Outer definitions first: by start line, then widest span
+  entries.sort((a, b) => a.node.lineStart - b.node.lineStart || b.node.lineEnd - a.node.lineEnd);
+
+  const roots: { node: OutlineNode; namespace: string | null }[] = [];
+  const stack: OutlineNode[] = [];
+  for (const entry of entries) {
+    while (stack.length > 0 && !contains(stack[stack.length - 1], entry.node)) {
+      stack.pop();
+    }
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(entry.node);
+    } else {
+      roots.push(entry);
+    }
+    stack.push(entry.node);
+  }
+
+  const outline: OutlineNode[] = [];
+  const namespaces = new Map<string, OutlineNode>();
+  const synthetic = new Set<OutlineNode>();
+  for (const { node, namespace } of roots) {
+    if (!namespace) {
+      outline.push(node);
+      continue;
+    }
+
+    // Prefer a definition of the namespace itself (e.g. the class) in this file
+    const name = namespace.split(/::|\./).pop() || namespace;
+    let parent = namespaces.get(namespace) || outline.find((candidate) => candidate.symbol === name);
+    if (!parent) {
+      parent = { symbol: namespace, kind: 'namespace', lineStart: node.lineStart, lineEnd: node.lineEnd, children: [] };
+      synthetic.add(parent);
+      outline.push(parent);
+    }
+    namespaces.set(namespace, parent);
+
+    parent.children.push(node);
+    parent.children.sort((a, b) => a.lineStart - b.lineStart);
+    if (synthetic.has(parent)) {
+      parent.lineStart = Math.min(parent.lineStart, node.lineStart);
+      parent.lineEnd = Math.max(parent.lineEnd, node.lineEnd);
+    }
+  }
+
+  return outline;
+}
+
+/**
+ * Drop nodes deeper than maxDepth (1 = top level only)
+ */
+export function pruneOutline(nodes: OutlineNode[], maxDepth: number): OutlineNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    children: maxDepth > 1 ? pruneOutline(node.children, maxDepth - 1) : [],
+  }));
+}
+
+/**
+ * Render an outline as indented text, one definition per line:
+ * "symbol [kind] start-end  signature"
+ */
+export function formatOutline(nodes: OutlineNode[], indent: string = ''): string {
+  return nodes.map((node) => {
+    const span = node.lineStart === node.lineEnd ? `${node.lineStart}` : `${node.lineStart}-${node.lineEnd}`;
+    const line = `${indent}${node.symbol} [${node.kind}] ${span}${node.signature ? `  ${node.signature}` : ''}`;
+    return node.children.length > 0 ? `${line}\n${formatOutline(node.children, indent + '  ')}` : line;
+  }).join('\n');
+}
@@ -0,0 +1,151 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Parameterised prompts for common code-investigation workflows
+ */
+export const prompts: Prompt[] = [
+  {
+    name: 'explain_symbol',
+    description: 'Explain what a symbol does: find its definition, its references and the outline of the defining file.',
+    arguments: [
+      {
+        name: 'symbol',
+        description: 'Symbol name (function, class, variable, macro, ...)',
+        required: true,
+      },
+      {
+        name: 'project',
+        description: 'Project to search in (defaults to the configured default project)',
+      },
+    ],
+  },
+  {
+    name: 'file_change_history',
+    description: 'Explain who changed a file and why, using its history and line annotations.',
+    arguments: [
+      {
+        name: 'path',
+        description: 'File path relative to source root (e.g., /project/path/to/file.java)',
+        required: true,
+      },
+      {
+        name: 'maxEntries',
+        description: 'Maximum number of history entries to inspect (default: 20)',
+      },
+    ],
+  },
+  {
+    name: 'trace_error',
+    description: 'Trace an error message back to the code that produces it and the definition that encloses it.',
+    arguments: [
+      {
+        name: 'message',
+        description: 'Error message text, or a distinctive part of it',
+        required: true,
+      },
+      {
+        name: 'project',
+        description: 'Project to search in (defaults to the configured default project)',
+      },
+    ],
+  },
+];
+
+/**
+ * Format a tool call so the model can issue it verbatim
+ */
+function toolCall(name: string, args: { [key: string]: unknown }): string {
+  return `\`${name}\` with arguments \`${JSON.stringify(args)}\``;
+}
+
+function requireArgument(args: { [key: string]: string }, name: string): string {
+  const value = args[name];
+  if (!value || value.trim() === '') {
+    throw new Error(`Missing required prompt argument: ${name}`);
+  }
+  return value.trim();
+}
+
+function requireProject(args: { [key: string]: string }, defaultProject?: string): string {
+  const project = args.project?.trim() || defaultProject;
+  if (!project) {
+    throw new Error('Project argument is required (no default project configured). Use opengrok_list_projects to see available projects.');
+  }
+  return project;
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text,
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Render a prompt with its arguments filled into the tool calls it asks for
+ * @param name Prompt name
+ * @param args Prompt arguments supplied by the client
+ * @param defaultProject Project used when the prompt's project argument is omitted
+ */
+export function getPrompt(name: string, args: { [key: string]: string } = {}, defaultProject?: string): GetPromptResult {
+  switch (name) {
+    case 'explain_symbol': {
+      const symbol = requireArgument(args, 'symbol');
+      const project = requireProject(args, defaultProject);
+
+      return userPrompt(`Explain symbol ${symbol}`, [
+        `Explain what \`${symbol}\` does in the OpenGrok project "${project}".`,
+        '',
+        'Steps:',
+        `1. Find where it is defined: call ${toolCall('opengrok_search', { query: symbol, project, searchType: 'defs' })}.`,
+        `2. Find how it is used: call ${toolCall('opengrok_xref', { symbol, project })}.`,
+        '3. For the file that defines it, call `opengrok_get_file_definitions` with that file\'s path to get an outline of the surrounding code, then read the definition with `opengrok_get_file`.',
+        '',
+        `Then explain the purpose of \`${symbol}\`, its signature, its important callers, and any caveats. Cite file paths and line numbers.`,
+      ].join('\n'));
+    }
+
+    case 'file_change_history': {
+      const path = requireArgument(args, 'path');
+      const max = parseInt(args.maxEntries || '20', 10) || 20;
+
+      return userPrompt(`Change history of ${path}`, [
+        `Explain who changed \`${path}\` and why.`,
+        '',
+        'Steps:',
+        `1. Get the commit history: call ${toolCall('opengrok_get_history', { path, withFiles: true, max })}.`,
+        `2. Get the line-by-line annotation: call ${toolCall('opengrok_get_annotation', { path })}.`,
+        '',
+        'Then summarise the main changes in chronological order: who made them, when, and the reason given in the commit messages. Point out which parts of the current file each change is responsible for, and which files were usually changed together with it.',
+      ].join('\n'));
+    }
+
+    case 'trace_error': {
+      const message = requireArgument(args, 'message');
+      const project = requireProject(args, defaultProject);
+      const phrase = `"${message.replace(/["\\]/g, '\\$&')}"`;
+
+      return userPrompt(`Trace error "${message}"`, [
+        `Find where the error message ${JSON.stringify(message)} comes from in the OpenGrok project "${project}".`,
+        '',
+        'Steps:',
+        `1. Search for the message text: call ${toolCall('opengrok_search', { query: phrase, project, searchType: 'full' })}. If nothing matches, retry with a shorter distinctive part of the message.`,
+        '2. For each hit, call `opengrok_get_file_definitions` with the hit\'s path and pick the definition whose lineStart..lineEnd range contains the hit line. That is the function that raises the error.',
+        '3. Read that function with `opengrok_get_file`, then call `opengrok_xref` with its symbol to find the callers.',
+        '',
+        'Then explain under which conditions the error is produced, and which call paths lead to it. Cite file paths and line numbers.',
+      ].join('\n'));
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Structured Lucene query builder for OpenGrok searches.
+ * Queries are built from a small JSON tree, escaped, and validated before
+ * they reach /search, so that malformed input fails with a clear explanation.
+ */
+
+import { InvalidQueryError } from './errors.js';
+
+/**
+ * Fields that can prefix a clause inside a full-text query
+ */
+export const QUERY_FIELDS = ['full', 'defs', 'refs', 'path', 'hist', 'type'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export type QueryNode =
+  | { term: string }
+  | { phrase: string }
+  | { wildcard: string }
+  | { regex: string }
+  | { field: QueryField; query: QueryNode }
+  | { and: QueryNode[] }
+  | { or: QueryNode[] }
+  | { not: QueryNode };
+
+/**
+ * Raised for queries that would be rejected (or silently misread) by OpenGrok
+ */
+export class QueryBuilderError extends InvalidQueryError {
+  // Location of the offending node, e.g. "and[1].field.query"
+  readonly location: string;
+
+  constructor(location: string, message: string) {
+    super(`Invalid query at ${location}: ${message}`);
+    this.name = 'QueryBuilderError';
+    this.location = location;
+  }
+}
+
+const MAX_DEPTH = 16;
+
+// Characters with a special meaning in Lucene query syntax
+const SPECIAL_CHARACTERS = /[+\-&|!(){}[\]^"~*?:\\/]/g;
+
+// Bare words that the query parser treats as operators
+const OPERATORS = new Set(['AND', 'OR', 'NOT', 'TO']);
+
+/**
+ * Escape every Lucene special character and whitespace in a term
+ */
+export function escapeTerm(text: string): string {
+  return text.replace(SPECIAL_CHARACTERS, '\\$&').replace(/\s/g, '\\$&');
+}
+
+function requireText(value: unknown, location: string, kind: string): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new QueryBuilderError(location, `${kind} must be a non-empty string`);
+  }
+  return value;
+}
+
+function isNot(node: QueryNode): boolean {
+  return typeof node === 'object' && node !== null && 'not' in node;
+}
+
+function build(node: QueryNode, location: string, depth: number, inField: boolean): string {
+  if (depth > MAX_DEPTH) {
+    throw new QueryBuilderError(location, `query is nested deeper than ${MAX_DEPTH} levels`);
+  }
+  if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+    throw new QueryBuilderError(location, 'expected an object such as {"term": "..."}');
+  }
+
+  const keys = Object.keys(node);
+  const kind = keys.find((key) => ['term', 'phrase', 'wildcard', 'regex', 'field', 'and', 'or', 'not'].includes(key));
+  if (!kind) {
+    throw new QueryBuilderError(location, `unknown node with keys [${keys.join(', ')}]; use one of term, phrase, wildcard, regex, field, and, or, not`);
+  }
+
+  switch (kind) {
+    case 'term': {
+      const term = requireText((node as { term: string }).term, location, 'term');
+      // A lone operator word would be parsed as an operator; quote it instead
+      return OPERATORS.has(term) ? `"${term}"` : escapeTerm(term);
+    }
+
+    case 'phrase': {
+      const phrase = requireText((node as { phrase: string }).phrase, location, 'phrase');
+      return `"${phrase.replace(/["\\]/g, '\\$&')}"`;
+    }
+
+    case 'wildcard': {
+      const pattern = requireText((node as { wildcard: string }).wildcard, location, 'wildcard');
+      if (/\s/.test(pattern)) {
+        throw new QueryBuilderError(location, 'wildcard patterns cannot contain whitespace; combine several wildcards with "and"');
+      }
+      if (/^[*?]+$/.test(pattern)) {
+        throw new QueryBuilderError(location, `wildcard "${pattern}" matches every term; add at least one literal character`);
+      }
+      // Escape everything except the wildcard characters themselves
+      return pattern.replace(/[+\-&|!(){}[\]^"~:\\/]/g, '\\$&');
+    }
+
+    case 'regex': {
+      const pattern = requireText((node as { regex: string }).regex, location, 'regex');
+      const unsupported = unsupportedRegexSyntax(pattern);
+      if (unsupported) {
+        throw new QueryBuilderError(location, unsupported);
+      }
+      try {
+        // Catches unbalanced groups, classes and quantifiers, which Lucene rejects as well
+        new RegExp(pattern);
+      } catch (error: any) {
+        throw new QueryBuilderError(location, `regex does not compile: ${error.message}`);
+      }
+      // Lucene regexes are delimited by slashes and must match a whole term
+      return `/${escapeRegexDelimiters(pattern)}/`;
+    }
+
+    case 'field': {
+      const { field, query } = node as { field: QueryField; query: QueryNode };
+      if (inField) {
+        throw new QueryBuilderError(location, 'field prefixes cannot be nested');
+      }
+      if (!QUERY_FIELDS.includes(field)) {
+        throw new QueryBuilderError(location, `unknown field "${field}"; use one of ${QUERY_FIELDS.join(', ')}`);
+      }
+      if (query === undefined) {
+        throw new QueryBuilderError(location, 'field node needs a "query"');
+      }
+      const inner = build(query, `${location}.query`, depth + 1, true);
+      return `${field}:${needsGrouping(query) ? `(${inner})` : inner}`;
+    }
+
+    case 'and':
+    case 'or': {
+      const children = (node as { [key: string]: QueryNode[] })[kind];
+      if (!Array.isArray(children) || children.length === 0) {
+        throw new QueryBuilderError(location, `"${kind}" needs a non-empty array of clauses`);
+      }
+      if (kind === 'and' && children.every(isNot)) {
+        throw new QueryBuilderError(location, '"and" needs at least one positive clause; Lucene cannot evaluate purely negative queries');
+      }
+      if (kind === 'or' && children.some(isNot)) {
+        throw new QueryBuilderError(location, '"not" is not allowed directly inside "or"; put it inside an "and" with a positive clause');
+      }
+
+      const parts = children.map((child, index) => build(child, `${location}.${kind}[${index}]`, depth + 1, inField));
+      if (parts.length === 1) {
+        return parts[0];
+      }
+      return `(${parts.join(kind === 'and' ? ' AND ' : ' OR ')})`;
+    }
+
+    case 'not':
+    default: {
+      const child = (node as { not: QueryNode }).not;
+      if (child === undefined) {
+        throw new QueryBuilderError(location, '"not" needs a clause to negate');
+      }
+      if (isNot(child)) {
+        throw new QueryBuilderError(location, 'double negation; remove both "not" nodes');
+      }
+      return `NOT ${build(child, `${location}.not`, depth + 1, inField)}`;
+    }
+  }
+}
+
+// Escapes that JavaScript reads as character classes or assertions; Lucene reads them as the plain letter
+const SHORTHAND_ESCAPES = new Set(['d', 'D', 'w', 'W', 's', 'S', 'b', 'B']);
+
+/**
+ * Find JavaScript/PCRE regex syntax that Lucene's RegExp reads differently.
+ * Lucene regexes always match a whole term, have no anchors, lookarounds,
+ * lazy quantifiers or shorthand classes.
+ * @returns Explanation of the first unsupported construct, if any
+ */
+function unsupportedRegexSyntax(pattern: string): string | undefined {
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const next = pattern[i + 1];
+    if (char === '\\') {
+      if (next !== undefined && SHORTHAND_ESCAPES.has(next)) {
+        return `"\\${next}" is not supported by Lucene regexes; use a character class such as [0-9] or [a-zA-Z_0-9]`;
+      }
+      i++;
+      continue;
+    }
+    if (inClass) {
+      inClass = char !== ']';
+      continue;
+    }
+    if (char === '[') {
+      // A "]" right after "[" or "[^" is a literal
+      inClass = true;
+      if (next === '^') {
+        i++;
+      }
+      if (pattern[i + 1] === ']') {
+        i++;
+      }
+    } else if (char === '^' || char === '$') {
+      return `anchor "${char}" is not supported; Lucene regexes always match a whole term, use .* to match part of one`;
+    } else if (char === '(' && next === '?') {
+      return 'groups starting with "(?" (lookarounds, non-capturing or named groups) are not supported by Lucene regexes';
+    } else if ((char === '*' || char === '+' || char === '?' || char === '}') && next === '?') {
+      return `lazy quantifier "${char}?" is not supported by Lucene regexes`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Escape unescaped "/" characters inside a regex body
+ */
+function escapeRegexDelimiters(pattern: string): string {
+  let escaped = '';
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\' && i + 1 < pattern.length) {
+      escaped += pattern[i] + pattern[i + 1];
+      i++;
+    } else {
+      escaped += pattern[i] === '/' ? '\\/' : pattern[i];
+    }
+  }
+  return escaped;
+}
+
+function needsGrouping(node: QueryNode): boolean {
+  return typeof node === 'object' && node !== null && ('and' in node || 'or' in node || 'not' in node);
+}
+
+/**
+ * Build an escaped Lucene query string from a structured query
+ * @param node Root of the structured query
+ * @throws QueryBuilderError when the query is invalid
+ */
+export function buildQuery(node: QueryNode): string {
+  if (isNot(node)) {
+    throw new QueryBuilderError('query', 'a query cannot consist of a single "not"; combine it with a positive clause using "and"');
+  }
+  return build(node, 'query', 0, false);
+}
+
+// Characters after which a "/" starts a regex literal rather than ending a term
+const REGEX_PRECEDERS = /[\s(:+\-!]/;
+
+/**
+ * Check a raw query string for mistakes that the server reports as opaque
+ * parse errors: unbalanced quotes or parentheses and dangling operators.
+ * Regex literals (/.../) are skipped, since quotes and parentheses inside them are not syntax.
+ * @param query Raw query string
+ * @param location Name of the search field the query belongs to
+ * @throws QueryBuilderError when the query is invalid
+ */
+export function validateQueryString(query: string, location: string = 'query'): void {
+  let depth = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (!inQuotes && char === '/' && (i === 0 || REGEX_PRECEDERS.test(query[i - 1]))) {
+      const end = regexLiteralEnd(query, i);
+      if (end === undefined) {
+        throw new QueryBuilderError(location, `unterminated regex starting at position ${i + 1}; close it with / or escape the slash as \\/`);
+      }
+      i = end;
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '(') {
+      depth++;
+    } else if (!inQuotes && char === ')') {
+      depth--;
+      if (depth < 0) {
+        throw new QueryBuilderError(location, `unmatched ")" at position ${i + 1}; escape it as \\) to search for it literally`);
+      }
+    }
+  }
+
+  if (inQuotes) {
+    throw new QueryBuilderError(location, 'unterminated quoted phrase; close it with " or escape the quote as \\"');
+  }
+  if (depth > 0) {
+    throw new QueryBuilderError(location, 'unmatched "("; close it or escape it as \\( to search for it literally');
+  }
+
+  const trimmed = query.trim();
+  const dangling = /(^|\s)(AND|OR|NOT|&&|\|\|)$/.exec(trimmed) || /^(AND|OR|&&|\|\|)(\s|$)/.exec(trimmed);
+  if (dangling) {
+    throw new QueryBuilderError(location, `operator "${dangling[0].trim()}" is missing an operand`);
+  }
+}
+
+/**
+ * Index of the "/" closing the regex literal that starts at `start`
+ */
+function regexLiteralEnd(query: string, start: number): number | undefined {
+  for (let i = start + 1; i < query.length; i++) {
+    if (query[i] === '\\') {
+      i++;
+    } else if (query[i] === '/') {
+      return i;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,57 @@
+/**
+ * Per-request context carried across async calls, so the AbortSignal of an MCP
+ * request reaches every OpenGrok HTTP call it makes without threading it
+ * through each method signature.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestCancelledError } from './errors.js';
+
+interface RequestContext {
+  signal?: AbortSignal;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run fn with a signal that cancels every OpenGrok request made inside it
+ * @param signal Signal of the MCP request (extra.signal)
+ * @param fn Work to run
+ */
+export function runWithSignal<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ signal }, fn);
+}
+
+/**
+ * Signal of the MCP request being handled, if any
+ */
+export function currentSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+/**
+ * Stop work early when the current request was cancelled
+ * @throws RequestCancelledError
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined = currentSignal()): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+/**
+ * Reject as soon as the signal aborts, otherwise settle like the promise
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new RequestCancelledError());
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
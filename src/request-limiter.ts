@@ -0,0 +1,175 @@
+/**
+ * Keep bursts from the MCP server off the shared OpenGrok instance: global and
+ * per-endpoint concurrency caps, a token-bucket rate limit, and coalescing of
+ * identical GET requests that are in flight at the same time.
+ */
+
+import axios, { AxiosAdapter, AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Limiter, createLimiter } from './concurrency.js';
+import { abortable, throwIfCancelled } from './request-context.js';
+
+export interface RequestLimitOptions {
+  // Requests sent at once across all endpoints
+  maxConcurrent?: number;
+  // Requests sent at once to one endpoint (e.g. /search, /file)
+  maxConcurrentPerEndpoint?: number;
+  // Sustained requests per second (0 disables the rate limit)
+  ratePerSecond?: number;
+  // Requests that may be sent back to back before the rate limit applies
+  burst?: number;
+}
+
+/**
+ * Token bucket: `burst` tokens, refilled at `ratePerSecond`. Waiters are served in FIFO order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly ratePerSecond: number, private readonly burst: number) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Resolve once a token is available and consume it. A waiter whose signal
+   * aborts rejects at once and gives up its turn without taking a token.
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.takeInOrder(signal));
+    // A failed wait must not block later waiters
+    this.queue = turn.catch(() => undefined);
+    return abortable(turn, signal);
+  }
+
+  private async takeInOrder(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      throwIfCancelled(signal);
+      const now = Date.now();
+      this.tokens = Math.min(this.burst, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await abortable(new Promise((resolve) => setTimeout(resolve, ((1 - this.tokens) / this.ratePerSecond) * 1000)), signal);
+    }
+  }
+}
+
+/**
+ * Endpoint group of a request URL: its first path segment (e.g. "/projects/foo/files" → "/projects")
+ */
+function endpointOf(url: string | undefined): string {
+  const path = (url || '').replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+  const segment = path.split('/').find((part) => part !== '');
+  return `/${segment || ''}`;
+}
+
+/**
+ * Concurrency caps and rate limit shared by every client of the process, so
+ * that parallel sessions together stay within the limits
+ */
+export class RequestLimiter {
+  private readonly global: Limiter;
+  private readonly perEndpoint = new Map<string, Limiter>();
+  private readonly bucket?: TokenBucket;
+  private readonly maxConcurrentPerEndpoint: number;
+
+  constructor(options: RequestLimitOptions = {}) {
+    const { maxConcurrent = 8, maxConcurrentPerEndpoint = 4, ratePerSecond = 20, burst = ratePerSecond } = options;
+    this.global = createLimiter(maxConcurrent);
+    this.maxConcurrentPerEndpoint = maxConcurrentPerEndpoint;
+    this.bucket = ratePerSecond > 0 ? new TokenBucket(ratePerSecond, Math.max(1, burst)) : undefined;
+  }
+
+  /**
+   * Run a request once its endpoint and the global cap have a free slot and a token is available
+   * @param url Request URL, used to pick the endpoint cap
+   * @param task Sends the request
+   * @param signal Cancels the request while it waits: it leaves the queues and takes no token
+   */
+  schedule<T>(url: string | undefined, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const endpoint = endpointOf(url);
+    let endpointLimit = this.perEndpoint.get(endpoint);
+    if (!endpointLimit) {
+      endpointLimit = createLimiter(this.maxConcurrentPerEndpoint);
+      this.perEndpoint.set(endpoint, endpointLimit);
+    }
+    // Take the endpoint slot first so a busy endpoint does not hold global slots
+    return endpointLimit(() => this.global(async () => {
+      throwIfCancelled(signal);
+      await this.bucket?.take(signal);
+      return task();
+    }, signal), signal);
+  }
+}
+
+interface SharedRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  // Callers still waiting for the response
+  waiters: number;
+}
+
+/**
+ * Wrap the adapter of an axios instance so requests go through the limiter and
+ * identical GETs in flight share one request. Runs below the interceptors, so
+ * every retry is limited too. Coalescing is per instance: responses are never
+ * shared between clients with different credentials.
+ */
+export function applyRequestLimits(client: AxiosInstance, limiter: RequestLimiter): void {
+  const adapter: AxiosAdapter = axios.getAdapter(client.defaults.adapter);
+  const inFlight = new Map<string, SharedRequest>();
+
+  // Requests cancelled while queued are dropped without being sent
+  const send = (config: InternalAxiosRequestConfig) => {
+    const signal = config.signal as AbortSignal | undefined;
+    return limiter.schedule(config.url, () => {
+      throwIfCancelled(signal);
+      return adapter(config);
+    }, signal);
+  };
+
+  client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const signal = config.signal as AbortSignal | undefined;
+    throwIfCancelled(signal);
+    if ((config.method || 'get').toLowerCase() !== 'get') {
+      return abortable(send(config), signal);
+    }
+
+    const key = client.getUri(config);
+    let shared = inFlight.get(key);
+    if (!shared) {
+      // The shared request has its own signal: it is aborted only once every caller has cancelled
+      const controller = new AbortController();
+      const entry: SharedRequest = { controller, waiters: 0, promise: send({ ...config, signal: controller.signal }) };
+      entry.promise.finally(() => {
+        if (inFlight.get(key) === entry) {
+          inFlight.delete(key);
+        }
+      }).catch(() => undefined);
+      inFlight.set(key, entry);
+      shared = entry;
+    }
+
+    const request = shared;
+    request.waiters++;
+    const onAbort = () => {
+      if (--request.waiters === 0) {
+        request.controller.abort();
+      }
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await abortable(request.promise, signal);
+      // Callers of a shared response each get their own copy, tied to their own config
+      return { ...response, data: request.waiters > 1 ? structuredClone(response.data) : response.data, config };
+    } catch (error: any) {
+      throw axios.isAxiosError(error) ? AxiosError.from(error, error.code, config, error.request, error.response) : error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Retries with exponential backoff and a circuit breaker for the OpenGrok HTTP client.
+ * Only idempotent requests are retried; once the server keeps failing, the
+ * breaker opens and calls fail fast instead of waiting for a timeout each time.
+ */
+
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RequestCancelledError, ServerUnavailableError } from './errors.js';
+import { abortable } from './request-context.js';
+
+export interface ResilienceOptions {
+  // Retries after the first attempt (0 disables retrying)
+  retries?: number;
+  // Delay before the first retry; doubled for every further retry
+  baseDelayMs?: number;
+  // Upper bound for a single backoff delay
+  maxDelayMs?: number;
+  // A Retry-After longer than this is not waited for
+  maxRetryAfterMs?: number;
+  // Consecutive failed requests that open the circuit (0 disables the breaker)
+  failureThreshold?: number;
+  // How long the circuit stays open before a trial request is let through
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Raised without contacting the server while the circuit is open
+ */
+export class CircuitOpenError extends ServerUnavailableError {
+  readonly retryInMs: number;
+
+  constructor(failures: number, retryInMs: number) {
+    super(`OpenGrok server unavailable: ${failures} consecutive requests failed. Not retrying for another ${Math.ceil(retryInMs / 1000)}s.`);
+    this.name = 'CircuitOpenError';
+    this.retryInMs = retryInMs;
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options']);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH']);
+
+/**
+ * Tracks consecutive failures: closed → open after failureThreshold failures,
+ * open → half-open after resetTimeoutMs (one trial request), then closed again
+ * on success or open again on failure
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(private readonly failureThreshold: number, private readonly resetTimeoutMs: number) {}
+
+  /**
+   * Throw CircuitOpenError unless a request may be sent now
+   */
+  beforeRequest(): void {
+    if (this.failureThreshold <= 0 || this.openedAt === undefined) {
+      return;
+    }
+    const elapsed = Date.now() - this.openedAt;
+    if (elapsed < this.resetTimeoutMs || this.trialInFlight) {
+      throw new CircuitOpenError(this.failures, Math.max(0, this.resetTimeoutMs - elapsed));
+    }
+    this.trialInFlight = true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * A cancelled request says nothing about the server; let the next request be the trial
+   */
+  recordCancelled(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.failureThreshold > 0 && this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+type RetryConfig = InternalAxiosRequestConfig & { retryAttempt?: number };
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function retryAfterMs(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Install retry and circuit-breaker interceptors on an axios instance
+ */
+export function applyResilience(client: AxiosInstance, options: ResilienceOptions = {}): CircuitBreaker {
+  const {
+    retries = 3,
+    baseDelayMs = 250,
+    maxDelayMs = 5000,
+    maxRetryAfterMs = 30000,
+    failureThreshold = 5,
+    resetTimeoutMs = 30000,
+  } = options;
+  const breaker = new CircuitBreaker(failureThreshold, resetTimeoutMs);
+
+  // Exponential backoff with jitter (half fixed, half random)
+  const backoff = (attempt: number) => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  };
+
+  // Returns the delay before the next attempt, or undefined when the request should not be retried
+  const retryDelay = (config: RetryConfig | undefined, status?: number, code?: string, retryAfter?: unknown) => {
+    if (!config || !IDEMPOTENT_METHODS.has((config.method || 'get').toLowerCase())) {
+      return undefined;
+    }
+    const attempt = config.retryAttempt ?? 0;
+    const retryable = status !== undefined ? RETRYABLE_STATUSES.has(status) : code !== undefined && RETRYABLE_CODES.has(code);
+    if (!retryable || attempt >= retries) {
+      return undefined;
+    }
+    const requested = retryAfterMs(retryAfter);
+    if (requested !== undefined) {
+      return requested <= maxRetryAfterMs ? requested : undefined;
+    }
+    return backoff(attempt);
+  };
+
+  const retry = async (config: RetryConfig, delay: number) => {
+    // Stop waiting as soon as the request is cancelled
+    await abortable(new Promise((resolve) => setTimeout(resolve, delay)), config.signal as AbortSignal | undefined);
+    config.retryAttempt = (config.retryAttempt ?? 0) + 1;
+    return client.request(config);
+  };
+
+  client.interceptors.request.use((config: RetryConfig) => {
+    // Retries of a request that was already admitted skip the check
+    if (!config.retryAttempt) {
+      breaker.beforeRequest();
+    }
+    return config;
+  });
+
+  client.interceptors.response.use(
+    async (response: AxiosResponse) => {
+      // 4xx responses are resolved (see validateStatus), so 429 is handled here
+      if (response.status === 429) {
+        const delay = retryDelay(response.config, 429, undefined, response.headers['retry-after']);
+        if (delay !== undefined) {
+          return retry(response.config, delay);
+        }
+      }
+      breaker.recordSuccess();
+      return response;
+    },
+    async (error: AxiosError | RequestCancelledError) => {
+      // Fast failures and cancelled requests say nothing about the server's health
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+      if (axios.isCancel(error) || error instanceof RequestCancelledError) {
+        breaker.recordCancelled();
+        throw error;
+      }
+      const config = error.config as RetryConfig | undefined;
+      const status = error.response?.status;
+      const delay = retryDelay(config, status, error.code, error.response?.headers?.['retry-after']);
+      if (delay !== undefined && config) {
+        return retry(config, delay);
+      }
+
+      // Only server-side trouble counts against the breaker, once per request (after its last attempt)
+      if (status === undefined || status >= 500) {
+        breaker.recordFailure();
+      }
+      throw error;
+    }
+  );
+
+  return breaker;
+}
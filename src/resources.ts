@@ -0,0 +1,134 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+import { OpenGrokClient } from './opengrok-client.js';
+import { DirectoryEntry } from './opengrok-api-client.js';
+
+export const RESOURCE_SCHEME = 'opengrok';
+
+const DIRECTORY_MIME_TYPE = 'inode/directory';
+
+/**
+ * MIME types for the genres reported by OpenGrok's /file/genre endpoint
+ */
+const GENRE_MIME_TYPES: { [genre: string]: string } = {
+  PLAIN: 'text/plain',
+  XREFABLE: 'text/plain',
+  HTML: 'text/html',
+};
+
+/**
+ * Genres whose content cannot be returned as text
+ */
+const BINARY_GENRES = new Set(['IMAGE', 'DATA']);
+
+export interface ResourceLocation {
+  project: string;
+  path: string;
+  isDirectory: boolean;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Resource templates advertised to MCP clients
+ */
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://{project}/{+path}`,
+    name: 'OpenGrok file or directory',
+    description: 'A file or directory inside an OpenGrok project. Directory URIs end with "/" and return a JSON listing.',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://{project}/`,
+    name: 'OpenGrok project root',
+    description: 'Top-level directory listing of an OpenGrok project.',
+    mimeType: DIRECTORY_MIME_TYPE,
+  },
+];
+
+/**
+ * Build a resource URI for a path relative to the source root (e.g. /project/dir/file.c)
+ */
+export function toResourceUri(sourcePath: string, isDirectory: boolean = false): string {
+  const segments = sourcePath.split('/').filter((segment) => segment !== '');
+  const uri = `${RESOURCE_SCHEME}://${segments.map(encodeURIComponent).join('/')}`;
+  return isDirectory || segments.length === 1 ? `${uri}/` : uri;
+}
+
+/**
+ * Parse an opengrok:// URI into a project and a path relative to the source root
+ */
+export function parseResourceUri(uri: string): ResourceLocation {
+  const match = /^opengrok:\/\/([^/?#]+)(\/[^?#]*)?$/.exec(uri);
+  if (!match) {
+    throw new Error(`Invalid OpenGrok resource URI: ${uri}. Expected ${RESOURCE_SCHEME}://{project}/{path}`);
+  }
+
+  const project = decodeURIComponent(match[1]);
+  const rest = match[2] || '/';
+  const segments = rest.split('/').filter((segment) => segment !== '').map(decodeURIComponent);
+
+  return {
+    project,
+    path: ['', project, ...segments].join('/'),
+    isDirectory: rest.endsWith('/'),
+  };
+}
+
+/**
+ * List the top-level resources: one directory resource per project
+ */
+export async function listResources(client: OpenGrokClient): Promise<Resource[]> {
+  const projects = await client.listProjects();
+
+  return projects.map((project) => ({
+    uri: toResourceUri(`/${project}`, true),
+    name: project,
+    description: `Root directory of OpenGrok project ${project}`,
+    mimeType: DIRECTORY_MIME_TYPE,
+  }));
+}
+
+/**
+ * Read a file or directory resource
+ */
+export async function readResource(client: OpenGrokClient, uri: string): Promise<ResourceContents> {
+  const location = parseResourceUri(uri);
+
+  if (location.isDirectory) {
+    const entries: DirectoryEntry[] = await client.getDirectoryListing(location.path);
+    const listing = entries.map((entry) => ({
+      uri: toResourceUri(entry.path, entry.isDirectory),
+      name: entry.path.split('/').filter((segment) => segment !== '').pop() || entry.path,
+      isDirectory: entry.isDirectory,
+      size: entry.size,
+      numLines: entry.numLines,
+      loc: entry.loc,
+      date: entry.date,
+      description: entry.description,
+    }));
+
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(listing, null, 2),
+    };
+  }
+
+  const genre = String((await client.getFileGenre(location.path)) || '').trim().toUpperCase();
+  if (BINARY_GENRES.has(genre)) {
+    throw new Error(`Cannot read ${location.path} as text: OpenGrok reports genre ${genre}`);
+  }
+
+  const fileContent = await client.getFileContent(location.path, location.project);
+
+  return {
+    uri,
+    mimeType: GENRE_MIME_TYPES[genre] || 'text/plain',
+    text: fileContent.content,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Convert OpenGrok's HTML search snippets into plain text with highlight ranges
+ */
+
+export interface HighlightRange {
+  // Offsets into the plain-text snippet; end is exclusive
+  start: number;
+  end: number;
+}
+
+export interface CleanSnippet {
+  text: string;
+  highlights: HighlightRange[];
+}
+
+const NAMED_ENTITIES: { [name: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode HTML character references (named, decimal and hexadecimal)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Strip markup from a snippet and record which parts OpenGrok highlighted with <b>
+ * @param html Snippet as returned by the search API
+ */
+export function cleanSnippet(html: string): CleanSnippet {
+  let text = '';
+  const highlights: HighlightRange[] = [];
+  let boldDepth = 0;
+  let highlightStart = 0;
+
+  // Split into tags and text runs
+  const tokens = html.match(/<[^<>]*>|[^<]+|</g) || [];
+  for (const token of tokens) {
+    const tag = /^<\s*(\/?)\s*([a-zA-Z]+)/.exec(token);
+    if (token.length > 1 && token.startsWith('<') && tag) {
+      const closing = tag[1] === '/';
+      if (tag[2].toLowerCase() === 'b') {
+        if (!closing && boldDepth++ === 0) {
+          highlightStart = text.length;
+        } else if (closing && boldDepth > 0 && --boldDepth === 0 && text.length > highlightStart) {
+          highlights.push({ start: highlightStart, end: text.length });
+        }
+      }
+      continue;
+    }
+    text += decodeEntities(token);
+  }
+
+  if (boldDepth > 0 && text.length > highlightStart) {
+    highlights.push({ start: highlightStart, end: text.length });
+  }
+
+  // Merge touching ranges (e.g. <b>foo</b><b>bar</b>)
+  const merged: HighlightRange[] = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return { text, highlights: merged };
+}